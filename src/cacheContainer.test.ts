@@ -1,104 +1,618 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { CacheContainer } from "./cacheContainer.ts";
+import { CacheContainer, type CachedItem } from "./cacheContainer.ts";
 import { LRUStorage } from "./lruStorage.ts";
+import { createSeededRandom } from "./random.ts";
 
 describe("CacheContainer", () => {
-    let storage: LRUStorage;
-    let container: CacheContainer;
-
-    beforeEach(() => {
-        storage = new LRUStorage({ max: 100 });
-        container = new CacheContainer(storage);
-        vi.useFakeTimers();
-    });
-
-    afterEach(() => {
-        vi.useRealTimers();
-    });
-
-    it("should handle ttl and staleTtl correctly when ttl < staleTtl", async () => {
-        const key = "test-key-2";
-        const content = "test-content-2";
-
-        // Set item with ttl=50ms and staleTtl=100ms
-        await container.setItem(key, content, { ttl: 50, staleTtl: 100 });
-
-        // Time 0: Not expired, not stale
-        let item = await container.getItem(key);
-        expect(item).toBeDefined();
-        expect(item?.content).toBe(content);
-        expect(item?.meta.state).toBe("fresh");
-
-        // Time 60: Expired, but stale (so treated as stale)
-        vi.advanceTimersByTime(60);
-        item = await container.getItem(key);
-        expect(item).toBeDefined();
-        expect(item?.content).toBe(content);
-        expect(item?.meta.state).toBe("stale");
-
-        // Time 110: Expired and not stale anymore
-        vi.advanceTimersByTime(50); // Total 110
-        item = await container.getItem(key);
-        expect(item).toBeUndefined();
-    });
-
-    it("should handle ttl correctly without staleTtl", async () => {
-        const key = "test-key-no-stale";
-        const content = "test-content-no-stale";
-
-        // Set item with ttl=100ms and no staleTtl
-        await container.setItem(key, content, { ttl: 100 });
-
-        // Time 0: Fresh
-        let item = await container.getItem(key);
-        expect(item).toBeDefined();
-        expect(item?.content).toBe(content);
-        expect(item?.meta.state).toBe("fresh");
-
-        // Time 50: Fresh
-        vi.advanceTimersByTime(50);
-        item = await container.getItem(key);
-        expect(item).toBeDefined();
-        expect(item?.content).toBe(content);
-        expect(item?.meta.state).toBe("fresh");
-
-        // Time 110: Expired
-        vi.advanceTimersByTime(60); // Total 110
-        item = await container.getItem(key);
-        expect(item).toBeUndefined();
-    });
-
-    it("should handle ttl and staleTtl correctly when staleTtl < ttl", async () => {
-        const key = "test-key-stale-less-than-ttl";
-        const content = "test-content";
-
-        // Set item with ttl=100ms and staleTtl=50ms
-        // The implementation adjusts staleTtl to be ttl + staleTtl = 150ms
-        await container.setItem(key, content, { ttl: 100, staleTtl: 50 });
-
-        // Time 0: Fresh
-        let item = await container.getItem(key);
-        expect(item).toBeDefined();
-        expect(item?.content).toBe(content);
-        expect(item?.meta.state).toBe("fresh");
-
-        // Time 60: Fresh (still within ttl)
-        vi.advanceTimersByTime(60);
-        item = await container.getItem(key);
-        expect(item).toBeDefined();
-        expect(item?.content).toBe(content);
-        expect(item?.meta.state).toBe("fresh");
-
-        // Time 120: Stale (expired > 100, but within staleTtl < 150)
-        vi.advanceTimersByTime(60); // Total 120
-        item = await container.getItem(key);
-        expect(item).toBeDefined();
-        expect(item?.content).toBe(content);
-        expect(item?.meta.state).toBe("stale");
-
-        // Time 160: Expired ( > 150)
-        vi.advanceTimersByTime(40); // Total 160
-        item = await container.getItem(key);
-        expect(item).toBeUndefined();
-    });
-});
\ No newline at end of file
+	let storage: LRUStorage;
+	let container: CacheContainer;
+
+	beforeEach(() => {
+		storage = new LRUStorage({ max: 100 });
+		container = new CacheContainer(storage);
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should handle ttl and staleTtl correctly when ttl < staleTtl", async () => {
+		const key = "test-key-2";
+		const content = "test-content-2";
+
+		// Set item with ttl=50ms and staleTtl=100ms
+		await container.setItem(key, content, { ttl: 50, staleTtl: 100 });
+
+		// Time 0: Not expired, not stale
+		let item = await container.getItem(key);
+		expect(item).toBeDefined();
+		expect(item?.content).toBe(content);
+		expect(item?.meta.state).toBe("fresh");
+
+		// Time 60: Expired, but stale (so treated as stale)
+		vi.advanceTimersByTime(60);
+		item = await container.getItem(key);
+		expect(item).toBeDefined();
+		expect(item?.content).toBe(content);
+		expect(item?.meta.state).toBe("stale");
+
+		// Time 110: Expired and not stale anymore
+		vi.advanceTimersByTime(50); // Total 110
+		item = await container.getItem(key);
+		expect(item).toBeUndefined();
+	});
+
+	it("should handle ttl correctly without staleTtl", async () => {
+		const key = "test-key-no-stale";
+		const content = "test-content-no-stale";
+
+		// Set item with ttl=100ms and no staleTtl
+		await container.setItem(key, content, { ttl: 100 });
+
+		// Time 0: Fresh
+		let item = await container.getItem(key);
+		expect(item).toBeDefined();
+		expect(item?.content).toBe(content);
+		expect(item?.meta.state).toBe("fresh");
+
+		// Time 50: Fresh
+		vi.advanceTimersByTime(50);
+		item = await container.getItem(key);
+		expect(item).toBeDefined();
+		expect(item?.content).toBe(content);
+		expect(item?.meta.state).toBe("fresh");
+
+		// Time 110: Expired
+		vi.advanceTimersByTime(60); // Total 110
+		item = await container.getItem(key);
+		expect(item).toBeUndefined();
+	});
+
+	it("should handle ttl and staleTtl correctly when staleTtl < ttl", async () => {
+		const key = "test-key-stale-less-than-ttl";
+		const content = "test-content";
+
+		// Set item with ttl=100ms and staleTtl=50ms
+		// The implementation adjusts staleTtl to be ttl + staleTtl = 150ms
+		await container.setItem(key, content, { ttl: 100, staleTtl: 50 });
+
+		// Time 0: Fresh
+		let item = await container.getItem(key);
+		expect(item).toBeDefined();
+		expect(item?.content).toBe(content);
+		expect(item?.meta.state).toBe("fresh");
+
+		// Time 60: Fresh (still within ttl)
+		vi.advanceTimersByTime(60);
+		item = await container.getItem(key);
+		expect(item).toBeDefined();
+		expect(item?.content).toBe(content);
+		expect(item?.meta.state).toBe("fresh");
+
+		// Time 120: Stale (expired > 100, but within staleTtl < 150)
+		vi.advanceTimersByTime(60); // Total 120
+		item = await container.getItem(key);
+		expect(item).toBeDefined();
+		expect(item?.content).toBe(content);
+		expect(item?.meta.state).toBe("stale");
+
+		// Time 160: Expired ( > 150)
+		vi.advanceTimersByTime(40); // Total 160
+		item = await container.getItem(key);
+		expect(item).toBeUndefined();
+	});
+
+	it("should return expired items within graceTtl instead of removing them", async () => {
+		const key = "test-key-grace";
+		const content = "test-content-grace";
+
+		await container.setItem(key, content, { ttl: 50, staleTtl: 100 });
+
+		// Time 110: Expired, but within the grace period
+		vi.advanceTimersByTime(110);
+		let item = await container.getItem(key, { graceTtl: 50 });
+		expect(item?.content).toBe(content);
+		expect(item?.meta.state).toBe("expired");
+
+		// Time 160: Past the grace period
+		vi.advanceTimersByTime(50);
+		item = await container.getItem(key, { graceTtl: 50 });
+		expect(item).toBeUndefined();
+		expect(await storage.getItem(key)).toBeUndefined();
+	});
+
+	describe("statistics", () => {
+		it("should count fresh hits, stale hits, misses and expirations", async () => {
+			await container.setItem("key", "content", { ttl: 50, staleTtl: 100 });
+
+			await container.getItem("key");
+			vi.advanceTimersByTime(60);
+			await container.getItem("key");
+			vi.advanceTimersByTime(50);
+			await container.getItem("key");
+			await container.getItem("missing");
+
+			expect(container.getStats()).toMatchObject({
+				hits: 2,
+				freshHits: 1,
+				staleHits: 1,
+				misses: 2,
+				expirations: 1,
+				sets: 1,
+				removals: 0,
+				errors: 0,
+			});
+		});
+
+		it("should count sets and removals", async () => {
+			await container.setItem("key1", "content");
+			await container.setItem("key2", "content");
+			await container.unsetKey("key1");
+
+			expect(container.getStats()).toMatchObject({ sets: 2, removals: 1 });
+		});
+
+		it("should count storage errors and rethrow them", async () => {
+			const failingContainer = new CacheContainer({
+				getItem: () => Promise.reject(new Error("Storage down")),
+				setItem: () => Promise.reject(new Error("Storage down")),
+				removeItem: () => Promise.reject(new Error("Storage down")),
+				clear: () => Promise.reject(new Error("Storage down")),
+			});
+
+			await expect(failingContainer.getItem("key")).rejects.toThrow(
+				"Storage down",
+			);
+			await expect(failingContainer.setItem("key", "content")).rejects.toThrow(
+				"Storage down",
+			);
+			await expect(failingContainer.clear()).rejects.toThrow("Storage down");
+
+			expect(failingContainer.getStats()).toMatchObject({
+				errors: 3,
+				sets: 0,
+				misses: 0,
+			});
+		});
+
+		it("should group statistics by prefix", async () => {
+			const prefixedContainer = new CacheContainer(storage, {
+				statsPrefix: (key) => key.split(":")[0],
+			});
+
+			await prefixedContainer.setItem("users:1", "Alice");
+			await prefixedContainer.getItem("users:1");
+			await prefixedContainer.getItem("users:2");
+			await prefixedContainer.getItem("orders:1");
+
+			const stats = prefixedContainer.getStats();
+			expect(stats.hits).toBe(1);
+			expect(stats.misses).toBe(2);
+			expect(stats.byPrefix).toMatchObject({
+				users: { hits: 1, misses: 1, sets: 1 },
+				orders: { hits: 0, misses: 1 },
+			});
+		});
+
+		it("should return snapshots and reset the statistics", async () => {
+			await container.setItem("key", "content");
+			const snapshot = container.getStats();
+
+			await container.getItem("key");
+			container.resetStats();
+
+			expect(snapshot.hits).toBe(0);
+			expect(snapshot.sets).toBe(1);
+			expect(container.getStats()).toMatchObject({ hits: 0, sets: 0 });
+			expect(container.getStats().byPrefix).toEqual({});
+		});
+	});
+
+	describe("events", () => {
+		it("should emit hit, stale, expired and miss on reads", async () => {
+			const events: string[] = [];
+			for (const name of ["hit", "stale", "expired", "miss"] as const) {
+				container.on(name, ({ key, state }) =>
+					events.push(`${name}:${key}:${state}`),
+				);
+			}
+
+			await container.setItem("key", "content", { ttl: 50, staleTtl: 100 });
+			await container.getItem("key");
+			vi.advanceTimersByTime(60);
+			await container.getItem("key");
+			vi.advanceTimersByTime(50);
+			await container.getItem("key");
+			await container.getItem("missing");
+
+			expect(events).toEqual([
+				"hit:key:fresh",
+				"stale:key:stale",
+				"expired:key:expired",
+				"miss:key:expired",
+				"miss:missing:undefined",
+			]);
+		});
+
+		it("should emit set, delete and clear", async () => {
+			const set = vi.fn();
+			const del = vi.fn();
+			const clear = vi.fn();
+			container.on("set", set);
+			container.on("delete", del);
+			container.on("clear", clear);
+
+			await container.setItem("key", "content", { ttl: 50, staleTtl: 100 });
+			await container.unsetKey("key");
+			await container.clear();
+
+			expect(set).toHaveBeenCalledWith({
+				key: "key",
+				ttl: 50,
+				staleTtl: 100,
+				durationMs: expect.any(Number),
+			});
+			expect(del).toHaveBeenCalledWith({
+				key: "key",
+				durationMs: expect.any(Number),
+			});
+			expect(clear).toHaveBeenCalledWith({ durationMs: expect.any(Number) });
+		});
+
+		it("should include the read duration", async () => {
+			const hit = vi.fn();
+			container.on("hit", hit);
+
+			await container.setItem("key", "content");
+			await container.getItem("key");
+
+			const [{ durationMs }] = hit.mock.calls[0] as [{ durationMs: number }];
+			expect(durationMs).toBeGreaterThanOrEqual(0);
+		});
+	});
+
+	describe("tags", () => {
+		it("should invalidate all items carrying an invalidated tag", async () => {
+			await container.setItem("user", "Alice", { tags: ["user:1"] });
+			await container.setItem("user-posts", ["post"], {
+				tags: ["user:1", "posts"],
+			});
+			await container.setItem("other", "Bob", { tags: ["user:2"] });
+			await container.setItem("untagged", "content");
+
+			await container.invalidateTags(["user:1"]);
+
+			expect(await container.getItem("user")).toBeUndefined();
+			expect(await container.getItem("user-posts")).toBeUndefined();
+			expect((await container.getItem("other"))?.content).toBe("Bob");
+			expect((await container.getItem("untagged"))?.content).toBe("content");
+		});
+
+		it("should remove invalidated items from the storage on read", async () => {
+			await container.setItem("user", "Alice", { tags: ["user:1"] });
+			await container.invalidateTags(["user:1"]);
+
+			await container.getItem("user");
+
+			expect(await storage.getItem("user")).toBeUndefined();
+		});
+
+		it("should keep items written after the invalidation", async () => {
+			await container.setItem("user", "Alice", { tags: ["user:1"] });
+			await container.invalidateTags(["user:1"]);
+			await container.setItem("user", "Alice 2", { tags: ["user:1"] });
+
+			expect((await container.getItem("user"))?.content).toBe("Alice 2");
+		});
+
+		it("should treat items as invalidated when their tag version is lost", async () => {
+			const smallStorage = new LRUStorage({ max: 2 });
+			const smallContainer = new CacheContainer(smallStorage);
+
+			await smallContainer.setItem("user", "Alice", { tags: ["user:1"] });
+			// evicts the tag version
+			await smallStorage.getItem("user");
+			await smallStorage.setItem("filler", {
+				content: "filler",
+				meta: { createdAt: Date.now(), ttl: null, staleTtl: null },
+			});
+
+			expect(await smallContainer.getItem("user")).toBeUndefined();
+		});
+
+		it("should emit invalidate events", async () => {
+			const invalidate = vi.fn();
+			container.on("invalidate", invalidate);
+
+			await container.invalidateTags(["user:1", "posts"]);
+
+			expect(invalidate).toHaveBeenCalledWith({ tags: ["user:1", "posts"] });
+		});
+	});
+
+	describe("prefix invalidation", () => {
+		it("should remove all items with the given prefix", async () => {
+			await container.setItem("users:1", "Alice");
+			await container.setItem("users:2", "Bob");
+			await container.setItem("orders:1", "Order");
+
+			expect(await container.invalidatePrefix("users:")).toBe(2);
+
+			expect(await container.getItem("users:1")).toBeUndefined();
+			expect(await container.getItem("users:2")).toBeUndefined();
+			expect((await container.getItem("orders:1"))?.content).toBe("Order");
+			expect(container.getStats().removals).toBe(2);
+		});
+
+		it("should list keys of the storage", async () => {
+			await container.setItem("users:1", "Alice");
+			await container.setItem("orders:1", "Order");
+
+			const keys: string[] = [];
+			for await (const key of container.keys("users:")) keys.push(key);
+
+			expect(keys).toEqual(["users:1"]);
+		});
+
+		it("should report storages without key enumeration", async () => {
+			const plainContainer = new CacheContainer({
+				getItem: async () => undefined,
+				setItem: async () => {},
+				removeItem: async () => {},
+				clear: async () => {},
+			});
+
+			await expect(plainContainer.invalidatePrefix("users:")).rejects.toThrow(
+				"does not support key enumeration",
+			);
+		});
+	});
+
+	describe("batch operations", () => {
+		it("should get multiple items with their state", async () => {
+			await container.setItems([
+				{ key: "fresh", content: 1, options: { ttl: 100 } },
+				{ key: "stale", content: 2, options: { ttl: 50, staleTtl: 200 } },
+				{ key: "expired", content: 3, options: { ttl: 50 } },
+			]);
+			vi.advanceTimersByTime(60);
+
+			const items = await container.getItems<number>([
+				"fresh",
+				"stale",
+				"expired",
+				"missing",
+			]);
+
+			expect(items.map((item) => item?.meta.state)).toEqual([
+				"fresh",
+				"stale",
+				undefined,
+				undefined,
+			]);
+			expect(items.map((item) => item?.content)).toEqual([
+				1,
+				2,
+				undefined,
+				undefined,
+			]);
+			expect(await storage.getItem("expired")).toBeUndefined();
+		});
+
+		it("should use the batch operations of the storage", async () => {
+			const getMany = vi.spyOn(storage, "getMany");
+			const setMany = vi.spyOn(storage, "setMany");
+
+			await container.setItems([
+				{ key: "key-1", content: 1 },
+				{ key: "key-2", content: 2 },
+			]);
+			await container.getItems(["key-1", "key-2"]);
+
+			expect(setMany).toHaveBeenCalledTimes(1);
+			expect(getMany).toHaveBeenCalledTimes(1);
+			expect(container.getStats()).toMatchObject({ sets: 2, freshHits: 2 });
+		});
+
+		it("should fall back to single operations", async () => {
+			const items = new Map<string, CachedItem>();
+			const plainContainer = new CacheContainer({
+				getItem: async (key) => items.get(key),
+				setItem: async (key, content) => {
+					items.set(key, content);
+				},
+				removeItem: async (key) => {
+					items.delete(key);
+				},
+				clear: async () => items.clear(),
+			});
+
+			await plainContainer.setItems([
+				{ key: "key-1", content: 1 },
+				{ key: "key-2", content: 2 },
+			]);
+
+			const result = await plainContainer.getItems(["key-2", "key-1"]);
+			expect(result.map((item) => item?.content)).toEqual([2, 1]);
+		});
+	});
+
+	describe("ttl jitter", () => {
+		it("should add up to ttlJitter milliseconds to ttl and staleTtl", async () => {
+			const jittered = new CacheContainer(storage, { random: () => 0.5 });
+
+			await jittered.setItem("key", "content", {
+				ttl: 1000,
+				staleTtl: 3000,
+				ttlJitter: 100,
+			});
+
+			expect((await storage.getItem("key"))?.meta).toMatchObject({
+				ttl: 1050,
+				staleTtl: 3050,
+			});
+		});
+
+		it("should support a fraction of the ttl and round to whole milliseconds", async () => {
+			const jittered = new CacheContainer(storage, { random: () => 0.3333 });
+
+			await jittered.setItem("key", "content", {
+				ttl: 1000,
+				ttlJitter: { fraction: 0.1 },
+			});
+
+			const meta = (await storage.getItem("key"))?.meta;
+			expect(meta?.ttl).toBe(1033);
+			expect(meta?.staleTtl).toBeNull();
+		});
+
+		it("should not jitter items without ttl", async () => {
+			await container.setItem("key", "content", { ttlJitter: 100 });
+
+			expect((await storage.getItem("key"))?.meta.ttl).toBeNull();
+		});
+
+		it("should be deterministic with a seeded random source", async () => {
+			const ttls = async (seed: number) => {
+				const seeded = new CacheContainer(new LRUStorage({ max: 100 }), {
+					random: createSeededRandom(seed),
+				});
+				const entries = ["a", "b", "c"].map((key) => ({
+					key,
+					content: key,
+					options: { ttl: 1000, ttlJitter: 1000 },
+				}));
+				await seeded.setItems(entries);
+				const items = await seeded.getItems(["a", "b", "c"]);
+				return items.map((item) => item?.meta.ttl);
+			};
+
+			const first = await ttls(42);
+
+			expect(await ttls(42)).toEqual(first);
+			expect(new Set(first).size).toBe(3);
+			for (const ttl of first) {
+				expect(ttl).toBeGreaterThanOrEqual(1000);
+				expect(ttl).toBeLessThanOrEqual(2000);
+			}
+		});
+	});
+
+	describe("sliding expiration", () => {
+		let sliding: CacheContainer;
+
+		beforeEach(() => {
+			sliding = new CacheContainer(storage, { slidingExpiration: true });
+		});
+
+		it("should extend fresh items read after half of their ttl", async () => {
+			await sliding.setItem("key", "content", { ttl: 1000 });
+
+			vi.advanceTimersByTime(400);
+			await sliding.getItem("key");
+			expect(
+				(await storage.getItem("key"))?.meta.lastAccessedAt,
+			).toBeUndefined();
+
+			vi.advanceTimersByTime(200);
+			await sliding.getItem("key");
+			expect((await storage.getItem("key"))?.meta).toMatchObject({
+				ttl: 1600,
+				lastAccessedAt: Date.now(),
+			});
+
+			vi.advanceTimersByTime(900);
+			expect((await sliding.getItem("key"))?.meta.state).toBe("fresh");
+		});
+
+		it("should extend by the original ttl again", async () => {
+			await sliding.setItem("key", "content", { ttl: 1000, staleTtl: 1500 });
+
+			vi.advanceTimersByTime(600);
+			await sliding.getItem("key");
+			vi.advanceTimersByTime(600);
+			await sliding.getItem("key");
+
+			expect((await storage.getItem("key"))?.meta).toMatchObject({
+				ttl: 2200,
+				staleTtl: 2700,
+			});
+		});
+
+		it("should not extend stale items or items without ttl", async () => {
+			await sliding.setItem("stale", "content", { ttl: 100, staleTtl: 1000 });
+			await sliding.setItem("forever", "content");
+
+			vi.advanceTimersByTime(200);
+			expect((await sliding.getItem("stale"))?.meta.state).toBe("stale");
+			await sliding.getItem("forever");
+
+			expect((await storage.getItem("stale"))?.meta.ttl).toBe(100);
+			expect((await storage.getItem("forever"))?.meta.ttl).toBeNull();
+		});
+
+		it("should not extend items without the option", async () => {
+			await container.setItem("key", "content", { ttl: 1000 });
+
+			vi.advanceTimersByTime(600);
+			await container.getItem("key");
+
+			expect((await storage.getItem("key"))?.meta.ttl).toBe(1000);
+		});
+	});
+
+	describe("touch", () => {
+		it("should let the item expire ttl milliseconds from now", async () => {
+			await container.setItem("key", "content", { ttl: 1000, staleTtl: 2000 });
+
+			vi.advanceTimersByTime(500);
+			expect(await container.touch("key", 3000)).toBe(true);
+
+			expect((await storage.getItem("key"))?.meta).toMatchObject({
+				ttl: 3500,
+				staleTtl: 4500,
+				lastAccessedAt: Date.now(),
+			});
+		});
+
+		it("should extend by the current ttl without a ttl", async () => {
+			await container.setItem("key", "content", { ttl: 100, staleTtl: 1000 });
+
+			vi.advanceTimersByTime(200);
+			expect(await container.touch("key")).toBe(true);
+
+			expect((await container.getItem("key"))?.meta.state).toBe("fresh");
+			expect((await storage.getItem("key"))?.meta.ttl).toBe(300);
+		});
+
+		it("should give items without ttl one", async () => {
+			await container.setItem("key", "content");
+
+			expect(await container.touch("key", 1000)).toBe(true);
+			vi.advanceTimersByTime(1001);
+
+			expect(await container.getItem("key")).toBeUndefined();
+		});
+
+		it("should return false for missing or expired items", async () => {
+			await container.setItem("key", "content", { ttl: 100 });
+			vi.advanceTimersByTime(200);
+
+			expect(await container.touch("key", 1000)).toBe(false);
+			expect(await container.touch("missing", 1000)).toBe(false);
+		});
+
+		it("should emit touch events", async () => {
+			const events: unknown[] = [];
+			container.on("touch", (event) => events.push(event));
+			await container.setItem("key", "content", { ttl: 1000 });
+
+			await container.touch("key", 2000);
+
+			expect(events).toEqual([
+				expect.objectContaining({ key: "key", ttl: 2000, staleTtl: null }),
+			]);
+		});
+	});
+});
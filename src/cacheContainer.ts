@@ -1,5 +1,11 @@
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import type { CacheContainerEvents } from "./cacheEvents.ts";
+import { type CacheStats, CacheStatsCollector } from "./cacheStats.ts";
 import { debug } from "./debug.ts";
-import type { Storage } from "./storage.ts";
+import { NamespacedStorage } from "./namespacedStorage.ts";
+import type { RandomSource } from "./random.ts";
+import { getMany, type Storage, setMany } from "./storage.ts";
 
 export type CachedItem<T = unknown> = {
 	content: T;
@@ -7,18 +13,39 @@ export type CachedItem<T = unknown> = {
 		createdAt: number;
 		ttl: number | null;
 		staleTtl?: number | null;
+		/** Time the lifetime of the item was last extended by `touch` or sliding expiration */
+		lastAccessedAt?: number;
+		/** Number of milliseconds it took to compute the content */
+		computeTimeMs?: number;
+		/** Versions of the tags at the time the item was written */
+		tags?: Record<string, string>;
+		/** Algorithm the content was compressed with by CompressedStorage */
+		compression?: "gzip" | "brotli" | "zstd";
+		/** Id of the key the content was encrypted with by EncryptedStorage */
+		encryptionKeyId?: string;
+		/** Original ttl and staleTtl of an item clamped by a FallbackStorage tier policy */
+		clampedFrom?: { ttl: number | null; staleTtl: number | null };
 	};
 };
 
 export type CachingOptions = {
 	/** Number of milliseconds to expire the cached item - defaults to forever */
 	ttl: number | null;
-	/** 
+	/**
 	 * Number of milliseconds to mark the cached item stale - defaults to the ttl.
 	 * If staleTtl is less than ttl, it will be adjusted to ttl + staleTtl.
 	 */
 	staleTtl: number | null;
-	/** (Default: JSON.stringify combination of className, methodName and call args) */
+	/**
+	 * Maximum number of milliseconds randomly added to ttl and staleTtl, or `{ fraction }` of the ttl,
+	 * so that items written together do not expire together - defaults to none
+	 */
+	ttlJitter: number | { fraction: number };
+	/** Tags to attach to the cached item, see `invalidateTags` - defaults to none */
+	tags: string[];
+	/** Number of milliseconds it took to compute the content, see `earlyRefreshBeta` of withCache - defaults to none */
+	computeTimeMs: number;
+	/** (Default: hash of the combination of className, methodName and call args) */
 	calculateKey: (data: {
 		/** The class name for the method being decorated */
 		className: string;
@@ -29,19 +56,314 @@ export type CachingOptions = {
 	}) => string;
 };
 
-export class CacheContainer {
-	constructor(private storage: Storage) { }
+export type CachedItemResult<T = unknown> = {
+	content: T;
+	meta: CachedItem<T>["meta"] & { state: "fresh" | "stale" | "expired" };
+};
+
+export type GetItemOptions = {
+	/**
+	 * Number of milliseconds an expired item is kept and returned with the state "expired"
+	 * instead of being removed - defaults to 0 (expired items are removed on read).
+	 * The window starts once the item is neither fresh nor stale anymore.
+	 */
+	graceTtl?: number;
+};
+
+export type CacheContainerOptions = {
+	/**
+	 * Maps a key to the prefix its statistics are additionally grouped by in `getStats().byPrefix`.
+	 * Return undefined to only count the key in the totals - defaults to no grouping.
+	 */
+	statsPrefix?: (key: string) => string | undefined;
+	/**
+	 * Source of random numbers for `ttlJitter` and the early refresh of withCache, e.g. `createSeededRandom(seed)` for deterministic tests - defaults to Math.random
+	 */
+	random?: RandomSource;
+	/**
+	 * Extends the lifetime of fresh items by their ttl when they are read, so that items in use stay cached.
+	 * To avoid a write on every read, an item is only extended once half of its ttl passed since it was written or last extended.
+	 * Defaults to false
+	 */
+	slidingExpiration?: boolean;
+};
+
+const TAG_KEY_PREFIX = "node-ts-cache:tag:";
+
+/**
+ * returns the time a tag version was created by an invalidation, 0 for versions created on first use
+ */
+const invalidatedAt = (version: string): number =>
+	Number(version.split(":")[0]) || 0;
+
+export class CacheContainer extends EventEmitter<CacheContainerEvents> {
+	private stats: CacheStatsCollector;
+	/** Source of random numbers of the container, also used by withCache for early refreshes */
+	public readonly random: RandomSource;
+
+	constructor(
+		private storage: Storage,
+		private options: CacheContainerOptions = {},
+	) {
+		super();
+		this.stats = new CacheStatsCollector(options.statsPrefix);
+		this.random = options.random ?? Math.random;
+
+		this.on("revalidate:start", ({ key }) =>
+			this.stats.record("revalidationsStarted", key),
+		);
+		this.on("revalidate:success", ({ key }) =>
+			this.stats.record("revalidationsSucceeded", key),
+		);
+		this.on("revalidate:error", ({ key }) =>
+			this.stats.record("revalidationsFailed", key),
+		);
+	}
+
+	public async getItem<T>(
+		key: string,
+		options?: GetItemOptions,
+	): Promise<CachedItemResult<T> | undefined> {
+		const startedAt = performance.now();
+		const item = await this.withErrorStats(key, () =>
+			this.storage.getItem(key),
+		);
+
+		return this.resolveItem<T>(
+			key,
+			item,
+			performance.now() - startedAt,
+			options,
+		);
+	}
+
+	/**
+	 * returns multiple items at once with their state computed per item, in the order of the keys.
+	 * Uses the batch operation of the storage if available.
+	 */
+	public async getItems<T>(
+		keys: string[],
+		options?: GetItemOptions,
+	): Promise<Array<CachedItemResult<T> | undefined>> {
+		const startedAt = performance.now();
+		const items = await this.withErrorStats(undefined, () =>
+			getMany(this.storage, keys),
+		);
+		const durationMs = performance.now() - startedAt;
+
+		return Promise.all(
+			keys.map((key, i) =>
+				this.resolveItem<T>(key, items[i], durationMs, options),
+			),
+		);
+	}
+
+	public async setItem(
+		key: string,
+		content: unknown,
+		options?: Partial<CachingOptions>,
+	): Promise<void> {
+		const item = await this.createItem(key, content, options);
+
+		const startedAt = performance.now();
+		await this.withErrorStats(key, () => this.storage.setItem(key, item));
+		this.onSet(key, item, performance.now() - startedAt);
+	}
+
+	/**
+	 * sets multiple items at once, using the batch operation of the storage if available
+	 */
+	public async setItems(
+		entries: Array<{
+			key: string;
+			content: unknown;
+			options?: Partial<CachingOptions>;
+		}>,
+	): Promise<void> {
+		const items = await Promise.all(
+			entries.map(
+				async ({ key, content, options }) =>
+					[key, await this.createItem(key, content, options)] as [
+						string,
+						CachedItem,
+					],
+			),
+		);
+
+		const startedAt = performance.now();
+		await this.withErrorStats(undefined, () => setMany(this.storage, items));
+		const durationMs = performance.now() - startedAt;
+		for (const [key, item] of items) {
+			this.onSet(key, item, durationMs);
+		}
+	}
+
+	/**
+	 * Extends the lifetime of an item that is fresh or stale: it expires `ttl` milliseconds from now,
+	 * and its stale window moves along. Without ttl, the item is extended by its current ttl.
+	 * @param key - key of the item
+	 * @param ttl - number of milliseconds the item is fresh from now
+	 * @returns whether the item was found
+	 */
+	public async touch(key: string, ttl?: number): Promise<boolean> {
+		const item = await this.withErrorStats(key, () =>
+			this.storage.getItem(key),
+		);
+		if (!item || (this.isItemExpired(item) && !this.isStaleItem(item))) {
+			return false;
+		}
+		if (await this.withErrorStats(key, () => this.isInvalidated(item))) {
+			return false;
+		}
+
+		const touched = this.extendItem(item, ttl);
+		if (touched) await this.storeTouched(key, touched);
+		return true;
+	}
+
+	public async clear(): Promise<void> {
+		const startedAt = performance.now();
+		await this.withErrorStats(undefined, () => this.storage.clear());
+		this.emit("clear", { durationMs: performance.now() - startedAt });
+
+		debug("Cleared cache");
+	}
+
+	/**
+	 * returns a container on a view of this container's storage whose keys are prefixed with the namespace,
+	 * so that its `clear()` only removes its own items. See NamespacedStorage.
+	 * The returned container keeps its own statistics and events.
+	 * @param namespace - namespace of the keys
+	 */
+	public namespace(namespace: string): CacheContainer {
+		return new CacheContainer(
+			new NamespacedStorage(this.storage, { namespace }),
+			this.options,
+		);
+	}
+
+	/**
+	 * iterates over the keys in the storage, if the storage supports key enumeration
+	 * @param prefix - only yield keys starting with this prefix
+	 */
+	public keys(prefix?: string): AsyncIterable<string> {
+		if (!this.storage.keys) {
+			throw new Error(
+				`Storage ${this.storage.constructor.name} does not support key enumeration`,
+			);
+		}
+		return this.storage.keys(prefix);
+	}
 
-	public async getItem<T>(key: string): Promise<
-		| {
-			content: T;
-			meta: { state: 'fresh' | 'stale' | 'expired'; createdAt: number };
+	/**
+	 * Removes all items whose key starts with the given prefix.
+	 * Requires a storage supporting key enumeration, otherwise an error is thrown.
+	 * @param prefix - prefix of the keys to remove
+	 * @returns the number of removed items
+	 */
+	public async invalidatePrefix(prefix: string): Promise<number> {
+		const keys: string[] = [];
+		for await (const key of this.keys(prefix)) {
+			keys.push(key);
 		}
-		| undefined
-	> {
-		const item = await this.storage.getItem(key);
 
-		if (!item) return;
+		await Promise.all(keys.map((key) => this.unsetKey(key)));
+
+		debug(`Invalidated ${keys.length} items with prefix ${prefix}`);
+		return keys.length;
+	}
+
+	/**
+	 * Invalidates all items carrying any of the given tags.
+	 * Works on every storage, as it only bumps a version per tag instead of looking up the tagged items;
+	 * those are removed once they are read.
+	 * @param tags - tags to invalidate
+	 */
+	public async invalidateTags(tags: string[]): Promise<void> {
+		await this.withErrorStats(undefined, () =>
+			Promise.all(tags.map((tag) => this.setTagVersion(tag))),
+		);
+		this.emit("invalidate", { tags });
+
+		debug(`Invalidated tags ${tags.join(", ")}`);
+	}
+
+	/**
+	 * returns the current version of each tag, creating versions for tags that have none yet.
+	 * Tags invalidated after `computedSince` get a version that never matches,
+	 * so content computed before an invalidation does not survive it.
+	 */
+	private async getTagVersions(tags: string[], computedSince: number) {
+		const versions = await Promise.all(
+			tags.map(async (tag) => {
+				const version =
+					(await this.getTagVersion(tag)) ?? (await this.setTagVersion(tag, 0));
+				if (invalidatedAt(version) > computedSince) {
+					debug(`Tag ${tag} was invalidated while the content was computed`);
+					return [tag, ""] as const;
+				}
+				return [tag, version] as const;
+			}),
+		);
+		return Object.fromEntries(versions);
+	}
+
+	private async getTagVersion(tag: string): Promise<string | undefined> {
+		const item = await this.storage.getItem(TAG_KEY_PREFIX + tag);
+		return typeof item?.content === "string" ? item.content : undefined;
+	}
+
+	/**
+	 * stores a new version of the tag, made of the time of the invalidation and a random part
+	 */
+	private async setTagVersion(
+		tag: string,
+		invalidatedAt = Date.now(),
+	): Promise<string> {
+		const version = `${invalidatedAt}:${randomUUID()}`;
+		await this.storage.setItem(TAG_KEY_PREFIX + tag, {
+			content: version,
+			meta: { createdAt: Date.now(), ttl: null, staleTtl: null },
+		});
+		return version;
+	}
+
+	/**
+	 * an item is invalidated if the version of any of its tags changed since it was written.
+	 * A missing version counts as changed, so losing the version never revives invalidated items.
+	 */
+	private async isInvalidated(item: CachedItem): Promise<boolean> {
+		if (!item.meta.tags) return false;
+
+		const tags = Object.entries(item.meta.tags);
+		const versions = await Promise.all(
+			tags.map(([tag]) => this.getTagVersion(tag)),
+		);
+		return tags.some(([, version], i) => versions[i] !== version);
+	}
+
+	/**
+	 * computes the state of an item read from the storage, removing it if it is expired or invalidated
+	 */
+	private async resolveItem<T>(
+		key: string,
+		item: CachedItem | undefined,
+		durationMs: number,
+		options?: GetItemOptions,
+	): Promise<CachedItemResult<T> | undefined> {
+		if (!item) {
+			this.stats.record("misses", key);
+			this.emit("miss", { key, state: undefined, durationMs });
+			return;
+		}
+
+		if (await this.withErrorStats(key, () => this.isInvalidated(item))) {
+			debug(`Removing ${key} as one of its tags was invalidated`);
+			this.stats.record("misses", key);
+			this.emit("miss", { key, state: undefined, durationMs });
+			await this.withErrorStats(key, () => this.storage.removeItem(key));
+			return undefined;
+		}
 
 		const isStale = this.isStaleItem(item);
 		const isExpired = this.isItemExpired(item);
@@ -65,18 +387,37 @@ export class CacheContainer {
 		};
 
 		if (result.meta.state === "expired") {
-			await this.unsetKey(key);
+			this.stats.record("misses", key);
+			this.emit("expired", { key, state, durationMs });
+			this.emit("miss", { key, state, durationMs });
+			if (this.isInGracePeriod(item, options?.graceTtl ?? 0)) {
+				return result;
+			}
+
+			this.stats.record("expirations", key);
+			await this.withErrorStats(key, () => this.storage.removeItem(key));
 			return undefined;
 		}
 
+		if (state === "fresh" && this.options.slidingExpiration) {
+			await this.slide(key, item);
+		}
+
+		if (state === "fresh") {
+			this.stats.record("freshHits", key);
+			this.emit("hit", { key, state, durationMs });
+		} else {
+			this.stats.record("staleHits", key);
+			this.emit("stale", { key, state, durationMs });
+		}
 		return result;
 	}
 
-	public async setItem(
+	private async createItem(
 		key: string,
 		content: unknown,
 		options?: Partial<CachingOptions>,
-	): Promise<void> {
+	): Promise<CachedItem> {
 		const finalOptions = {
 			ttl: null,
 			staleTtl: null,
@@ -94,19 +435,113 @@ export class CacheContainer {
 			finalOptions.staleTtl = finalOptions.ttl + finalOptions.staleTtl;
 		}
 
+		if (finalOptions.ttlJitter !== undefined && finalOptions.ttl !== null) {
+			const jitter = this.jitter(finalOptions.ttl, finalOptions.ttlJitter);
+			finalOptions.ttl += jitter;
+			if (finalOptions.staleTtl !== null) finalOptions.staleTtl += jitter;
+		}
+
 		const meta: CachedItem<typeof content>["meta"] = {
 			createdAt: Date.now(),
 			ttl: finalOptions.ttl,
 			staleTtl: finalOptions.staleTtl,
 		};
 
-		await this.storage.setItem(key, { meta, content });
+		if (finalOptions.computeTimeMs !== undefined) {
+			meta.computeTimeMs = finalOptions.computeTimeMs;
+		}
+
+		if (finalOptions.tags?.length) {
+			meta.tags = await this.withErrorStats(key, () =>
+				this.getTagVersions(
+					finalOptions.tags ?? [],
+					meta.createdAt - (finalOptions.computeTimeMs ?? 0),
+				),
+			);
+		}
+
+		return { meta, content };
 	}
 
-	public async clear(): Promise<void> {
-		await this.storage.clear();
+	/**
+	 * extends a fresh item read with sliding expiration, once half of its ttl passed since it was written or last extended.
+	 * Failures are only logged, as the item was read successfully.
+	 */
+	private async slide(key: string, item: CachedItem): Promise<void> {
+		const { createdAt, ttl, lastAccessedAt = createdAt } = item.meta;
+		if (ttl === null) return;
 
-		debug("Cleared cache");
+		const window = ttl - (lastAccessedAt - createdAt);
+		if (Date.now() - lastAccessedAt < window / 2) return;
+
+		const touched = this.extendItem(item);
+		if (!touched) return;
+		await this.storeTouched(key, touched).catch((error: unknown) => {
+			debug(`Extending the lifetime of ${key} failed: ${error}`);
+		});
+	}
+
+	/**
+	 * returns the item expiring `ttl` milliseconds from now, defaulting to the ttl it was written or last extended with.
+	 * ttl and staleTtl stay relative to createdAt, so storages expire the item at its new lifetime.
+	 * Returns undefined for items without ttl if none is given.
+	 */
+	private extendItem(item: CachedItem, ttl?: number): CachedItem | undefined {
+		const {
+			createdAt,
+			ttl: currentTtl,
+			staleTtl = null,
+			lastAccessedAt = createdAt,
+		} = item.meta;
+		const window =
+			ttl ??
+			(currentTtl === null
+				? undefined
+				: currentTtl - (lastAccessedAt - createdAt));
+		if (window === undefined) return undefined;
+
+		const now = Date.now();
+		const newTtl = now - createdAt + window;
+		const shift = currentTtl === null ? 0 : newTtl - currentTtl;
+		return {
+			content: item.content,
+			meta: {
+				...item.meta,
+				ttl: newTtl,
+				staleTtl: staleTtl === null ? null : staleTtl + shift,
+				lastAccessedAt: now,
+			},
+		};
+	}
+
+	private async storeTouched(key: string, item: CachedItem): Promise<void> {
+		const startedAt = performance.now();
+		await this.withErrorStats(key, () => this.storage.setItem(key, item));
+		this.emit("touch", {
+			key,
+			ttl: item.meta.ttl,
+			staleTtl: item.meta.staleTtl ?? null,
+			durationMs: performance.now() - startedAt,
+		});
+	}
+
+	/**
+	 * returns a random number of whole milliseconds between 0 and the jitter, so that storages with integer ttls keep it
+	 */
+	private jitter(ttl: number, ttlJitter: CachingOptions["ttlJitter"]): number {
+		const maxJitter =
+			typeof ttlJitter === "number" ? ttlJitter : ttl * ttlJitter.fraction;
+		return Math.round(this.random() * maxJitter);
+	}
+
+	private onSet(key: string, item: CachedItem, durationMs: number) {
+		this.stats.record("sets", key);
+		this.emit("set", {
+			key,
+			ttl: item.meta.ttl,
+			staleTtl: item.meta.staleTtl ?? null,
+			durationMs,
+		});
 	}
 
 	private isItemExpired(item: CachedItem): boolean {
@@ -120,7 +555,39 @@ export class CacheContainer {
 		return Date.now() <= item.meta.createdAt + item.meta.staleTtl;
 	}
 
+	private isInGracePeriod(item: CachedItem, graceTtl: number): boolean {
+		if (graceTtl <= 0 || item.meta.ttl === null) return false;
+		const lifetime = Math.max(item.meta.ttl, item.meta.staleTtl ?? 0);
+		return Date.now() <= item.meta.createdAt + lifetime + graceTtl;
+	}
+
 	public async unsetKey(key: string): Promise<void> {
-		await this.storage.removeItem(key);
+		const startedAt = performance.now();
+		await this.withErrorStats(key, () => this.storage.removeItem(key));
+		this.stats.record("removals", key);
+		this.emit("delete", { key, durationMs: performance.now() - startedAt });
+	}
+
+	/**
+	 * returns a snapshot of the hit/miss statistics since creation or the last reset
+	 */
+	public getStats(): CacheStats {
+		return this.stats.snapshot();
+	}
+
+	public resetStats(): void {
+		this.stats.reset();
+	}
+
+	private async withErrorStats<T>(
+		key: string | undefined,
+		operation: () => Promise<T>,
+	): Promise<T> {
+		try {
+			return await operation();
+		} catch (error) {
+			this.stats.record("errors", key);
+			throw error;
+		}
 	}
 }
@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { CacheContainer } from "./cacheContainer.ts";
+import { Cache, type CacheDecoratorOptions } from "./cacheDecorator.ts";
+import { LRUStorage } from "./lruStorage.ts";
+
+describe("Cache decorator", () => {
+	let storage: LRUStorage;
+	let container: CacheContainer;
+
+	beforeEach(() => {
+		storage = new LRUStorage({ max: 100 });
+		container = new CacheContainer(storage);
+	});
+
+	it("should cache method results per call args", async () => {
+		class UserService {
+			calls = 0;
+
+			@Cache(container, { cacheTimeMs: 1000 })
+			async getUser(id: number) {
+				this.calls++;
+				return { id };
+			}
+		}
+
+		const service = new UserService();
+
+		expect(await service.getUser(1)).toEqual({ id: 1 });
+		expect(await service.getUser(1)).toEqual({ id: 1 });
+		expect(await service.getUser(2)).toEqual({ id: 2 });
+		expect(service.calls).toBe(2);
+	});
+
+	it("should share results between instances by default", async () => {
+		let calls = 0;
+		class UserService {
+			@Cache(container, { cacheTimeMs: 1000 })
+			async getUser(id: number) {
+				calls++;
+				return { id };
+			}
+		}
+
+		await new UserService().getUser(1);
+		await new UserService().getUser(1);
+
+		expect(calls).toBe(1);
+	});
+
+	it("should keep results per instance with scope instance", async () => {
+		class UserService {
+			constructor(readonly tenant: string) {}
+
+			@Cache(container, {
+				cacheTimeMs: 1000,
+				scope: "instance",
+				instanceKey: (service) => service.tenant,
+			})
+			async getUser(id: number) {
+				return `${this.tenant}:${id}`;
+			}
+		}
+
+		const first = new UserService("a");
+		const second = new UserService("b");
+
+		expect(await first.getUser(1)).toBe("a:1");
+		expect(await second.getUser(1)).toBe("b:1");
+		expect(await first.getUser(1)).toBe("a:1");
+	});
+
+	it("should share results of instances with the same instance key", async () => {
+		let calls = 0;
+		class UserService {
+			constructor(readonly tenant: string) {}
+
+			@Cache(container, {
+				cacheTimeMs: 1000,
+				scope: "instance",
+				instanceKey: (service) => service.tenant,
+			})
+			async getUser(id: number) {
+				calls++;
+				return `${this.tenant}:${id}`;
+			}
+		}
+
+		await new UserService("a").getUser(1);
+		expect(await new UserService("a").getUser(1)).toBe("a:1");
+
+		expect(calls).toBe(1);
+	});
+
+	it("should require an instance key for scope instance", () => {
+		expect(() =>
+			Cache(container, {
+				scope: "instance",
+			} as unknown as CacheDecoratorOptions<[], unknown>),
+		).toThrow("requires an instanceKey");
+	});
+
+	it("should not share results between methods and classes", async () => {
+		class First {
+			@Cache(container, { cacheTimeMs: 1000 })
+			async get(id: number) {
+				return `first-get:${id}`;
+			}
+
+			@Cache(container, { cacheTimeMs: 1000 })
+			async load(id: number) {
+				return `first-load:${id}`;
+			}
+		}
+		class Second {
+			@Cache(container, { cacheTimeMs: 1000 })
+			async get(id: number) {
+				return `second-get:${id}`;
+			}
+		}
+
+		expect(await new First().get(1)).toBe("first-get:1");
+		expect(await new First().load(1)).toBe("first-load:1");
+		expect(await new Second().get(1)).toBe("second-get:1");
+	});
+
+	it("should pass class name, method name and args to calculateKey", async () => {
+		const calls: unknown[] = [];
+		class UserService {
+			@Cache(container, {
+				cacheTimeMs: 1000,
+				calculateKey: (data) => {
+					calls.push(data);
+					return String(data.args[0]);
+				},
+			})
+			async getUser(id: number, _locale: string) {
+				return id;
+			}
+		}
+
+		await new UserService().getUser(1, "en");
+
+		expect(calls).toEqual([
+			{ className: "UserService", methodName: "getUser", args: [1, "en"] },
+		]);
+		expect(await container.getItem("getUser:default:1")).toBeDefined();
+	});
+
+	it("should cache static methods", async () => {
+		let calls = 0;
+		class UserService {
+			name = "users";
+
+			@Cache(container, { cacheTimeMs: 1000 })
+			static async count() {
+				calls++;
+				return 42;
+			}
+		}
+
+		expect(await UserService.count()).toBe(42);
+		expect(await UserService.count()).toBe(42);
+		expect(calls).toBe(1);
+	});
+
+	it("should return stale results and revalidate in the background", async () => {
+		class Counter {
+			calls = 0;
+
+			@Cache(container, { cacheTimeMs: 20, staleTimeMs: 1000 })
+			async next() {
+				return ++this.calls;
+			}
+		}
+
+		const counter = new Counter();
+
+		expect(await counter.next()).toBe(1);
+		await new Promise((resolve) => setTimeout(resolve, 30));
+		expect(await counter.next()).toBe(1);
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		expect(await counter.next()).toBe(2);
+	});
+
+	it("should pass the call args to tags", async () => {
+		let version = 0;
+		class UserService {
+			@Cache(container, {
+				cacheTimeMs: 1000,
+				tags: ([id]) => [`user:${id}`],
+			})
+			async getUser(id: number) {
+				return `${id}-v${++version}`;
+			}
+		}
+
+		const service = new UserService();
+
+		expect(await service.getUser(1)).toBe("1-v1");
+		await container.invalidateTags(["user:1"]);
+		expect(await service.getUser(1)).toBe("1-v2");
+	});
+});
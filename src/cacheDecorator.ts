@@ -0,0 +1,106 @@
+import type { CacheContainer, CachingOptions } from "./cacheContainer.ts";
+import hash from "./hash.ts";
+import { type WithCacheOptions, withCacheFactory } from "./withCache.ts";
+
+export type CacheDecoratorOptions<
+	Args extends unknown[],
+	Return,
+	This extends object = object,
+> = Omit<WithCacheOptions<Args, Promise<Return>>, "calculateKey" | "tags"> & {
+	/** An optional function to calculate a cache key. Defaults to hashing the class name, method name and call args */
+	calculateKey?: CachingOptions["calculateKey"];
+	/** An optional function deriving tags from the call args and the result, see withCache */
+	tags?: (args: Args, result: Return) => string[];
+} & (
+		| {
+				/**
+				 * Whether cached results are shared by all instances of the class or kept per instance, see `instanceKey`
+				 * @default "class"
+				 */
+				scope?: "class";
+				instanceKey?: never;
+		  }
+		| {
+				scope: "instance";
+				/**
+				 * Returns the key telling instances apart, e.g. the tenant the instance serves.
+				 * It has to be stable across processes, as persistent storages outlive them.
+				 */
+				instanceKey: (instance: This) => string;
+		  }
+	);
+
+const defaultCalculateKey: CachingOptions["calculateKey"] = (data) =>
+	hash(data);
+
+/**
+ * Method decorator (TC39 decorators, TypeScript 5) caching the results of async methods in a container.
+ * Uses the Stale-While-Revalidate semantics of withCache; keys are built from the class name, method name and call args.
+ *
+ * @example
+ * class UserService {
+ *   @Cache(container, { cacheTimeMs: 60000 })
+ *   async getUser(id: string) { ... }
+ * }
+ *
+ * @param container - The cache container instance to store and retrieve cached values
+ * @param options - Caching and revalidation options, see withCache
+ * @returns A decorator for async methods
+ */
+export const Cache = <This extends object, Args extends unknown[], Return>(
+	container: CacheContainer,
+	{
+		calculateKey = defaultCalculateKey,
+		scope = "class",
+		instanceKey,
+		tags,
+		...options
+	}: CacheDecoratorOptions<Args, Return, This> = {},
+) => {
+	if (scope === "instance" && !instanceKey) {
+		throw new Error('scope "instance" requires an instanceKey');
+	}
+
+	const withCache = withCacheFactory(container);
+
+	return (
+		method: (this: This, ...args: Args) => Promise<Return>,
+		context: ClassMethodDecoratorContext<
+			This,
+			(this: This, ...args: Args) => Promise<Return>
+		>,
+	) => {
+		const methodName = String(context.name);
+		const className = (instance: This) =>
+			context.static
+				? (instance as unknown as { name: string }).name
+				: instance.constructor.name;
+
+		const operation = (instance: This, ...args: Args) =>
+			method.apply(instance, args);
+		Object.defineProperty(operation, "name", { value: methodName });
+
+		const cachedOperation = withCache(operation, {
+			...options,
+			calculateKey: ([instance, ...args]) => {
+				const key = calculateKey({
+					className: className(instance),
+					methodName,
+					args,
+				});
+				return instanceKey ? `${instanceKey(instance)}:${key}` : key;
+			},
+			...(tags && {
+				tags: ([, ...args]: [This, ...Args], result: Return) =>
+					tags(args as Args, result),
+			}),
+		});
+
+		return function (this: This, ...args: Args): Promise<Return> {
+			return cachedOperation(
+				this,
+				...args,
+			) as Promise<unknown> as Promise<Return>;
+		};
+	};
+};
@@ -0,0 +1,74 @@
+export type CacheReadEvent = {
+	key: string;
+	/** State of the item that was read, undefined if there was none */
+	state: "fresh" | "stale" | "expired" | undefined;
+	/** Duration of the storage read in milliseconds */
+	durationMs: number;
+};
+
+export type CacheWriteEvent = {
+	key: string;
+	ttl: number | null;
+	staleTtl: number | null;
+	/** Duration of the storage write in milliseconds */
+	durationMs: number;
+};
+
+export type CacheDeleteEvent = {
+	key: string;
+	/** Duration of the storage removal in milliseconds */
+	durationMs: number;
+};
+
+export type CacheClearEvent = {
+	/** Duration of the storage clear in milliseconds */
+	durationMs: number;
+};
+
+export type CacheInvalidateEvent = {
+	tags: string[];
+};
+
+export type RevalidateStartEvent = {
+	key: string;
+};
+
+export type RevalidateSuccessEvent = {
+	key: string;
+	/** Duration of the revalidation in milliseconds */
+	durationMs: number;
+};
+
+export type RevalidateErrorEvent = {
+	key: string;
+	error: unknown;
+	/** Duration of the revalidation in milliseconds */
+	durationMs: number;
+};
+
+/**
+ * Events emitted by CacheContainer. The `revalidate:*` events are emitted by withCache and withBatchCache on their container.
+ */
+export type CacheContainerEvents = {
+	/** Fresh content was read */
+	hit: [event: CacheReadEvent];
+	/** Stale content was read */
+	stale: [event: CacheReadEvent];
+	/** An item was found, but was neither fresh nor stale anymore */
+	expired: [event: CacheReadEvent];
+	/** Nothing usable was found, emitted after `expired` as well */
+	miss: [event: CacheReadEvent];
+	set: [event: CacheWriteEvent];
+	/** The lifetime of an item was extended by `touch` or sliding expiration */
+	touch: [event: CacheWriteEvent];
+	delete: [event: CacheDeleteEvent];
+	clear: [event: CacheClearEvent];
+	/** Tags were invalidated */
+	invalidate: [event: CacheInvalidateEvent];
+	/** A background revalidation started */
+	"revalidate:start": [event: RevalidateStartEvent];
+	/** A background revalidation stored fresh content */
+	"revalidate:success": [event: RevalidateSuccessEvent];
+	/** A background revalidation failed */
+	"revalidate:error": [event: RevalidateErrorEvent];
+};
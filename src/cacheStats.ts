@@ -0,0 +1,88 @@
+export type CacheStatsCounters = {
+	/** Reads that returned fresh content */
+	freshHits: number;
+	/** Reads that returned stale content */
+	staleHits: number;
+	/** Reads that found nothing usable */
+	misses: number;
+	/** Items removed on read because they were neither fresh nor stale anymore */
+	expirations: number;
+	/** Items written */
+	sets: number;
+	/** Items removed explicitly */
+	removals: number;
+	/** Failed storage operations */
+	errors: number;
+	/** Background revalidations started by withCache */
+	revalidationsStarted: number;
+	/** Background revalidations that completed successfully */
+	revalidationsSucceeded: number;
+	/** Background revalidations that failed */
+	revalidationsFailed: number;
+};
+
+export type CacheStats = CacheStatsCounters & {
+	/** Sum of fresh and stale hits */
+	hits: number;
+	/** Counters grouped by key prefix, if a prefix function was configured */
+	byPrefix: Record<string, CacheStatsCounters & { hits: number }>;
+};
+
+const emptyCounters = (): CacheStatsCounters => ({
+	freshHits: 0,
+	staleHits: 0,
+	misses: 0,
+	expirations: 0,
+	sets: 0,
+	removals: 0,
+	errors: 0,
+	revalidationsStarted: 0,
+	revalidationsSucceeded: 0,
+	revalidationsFailed: 0,
+});
+
+const withHits = (counters: CacheStatsCounters) => ({
+	...counters,
+	hits: counters.freshHits + counters.staleHits,
+});
+
+/**
+ * Collects hit/miss counters, in total and optionally per key prefix.
+ */
+export class CacheStatsCollector {
+	private totals = emptyCounters();
+	private prefixes = new Map<string, CacheStatsCounters>();
+
+	constructor(private getPrefix?: (key: string) => string | undefined) {}
+
+	record(counter: keyof CacheStatsCounters, key?: string): void {
+		this.totals[counter]++;
+
+		const prefix = key === undefined ? undefined : this.getPrefix?.(key);
+		if (prefix === undefined) return;
+
+		let counters = this.prefixes.get(prefix);
+		if (!counters) {
+			counters = emptyCounters();
+			this.prefixes.set(prefix, counters);
+		}
+		counters[counter]++;
+	}
+
+	snapshot(): CacheStats {
+		return {
+			...withHits(this.totals),
+			byPrefix: Object.fromEntries(
+				[...this.prefixes].map(([prefix, counters]) => [
+					prefix,
+					withHits(counters),
+				]),
+			),
+		};
+	}
+
+	reset(): void {
+		this.totals = emptyCounters();
+		this.prefixes.clear();
+	}
+}
@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import type { CachedItem } from "./cacheContainer.ts";
+import { createRichCodec, jsonCodec, richCodec } from "./codec.ts";
+
+const createItem = (content: unknown): CachedItem => ({
+	content,
+	meta: { createdAt: 1700000000000, ttl: 1000, staleTtl: 2000 },
+});
+
+describe("richCodec", () => {
+	const roundTrip = (content: unknown) => {
+		if (richCodec.format !== "text") throw new Error("expected text codec");
+		const encoded = richCodec.encode(createItem(content));
+		expect(typeof encoded).toBe("string");
+		return richCodec.decode(encoded).content;
+	};
+
+	it("should keep the meta data", () => {
+		const item: CachedItem = {
+			content: "content",
+			meta: {
+				createdAt: 1700000000000,
+				ttl: null,
+				staleTtl: 5,
+				tags: { user: "v1" },
+			},
+		};
+
+		expect(richCodec.decode(richCodec.encode(item) as never)).toEqual(item);
+	});
+
+	it.each([
+		["strings", "text"],
+		["numbers", 42.5],
+		["booleans", false],
+		["null", null],
+		["arrays", [1, "two", [3]]],
+		["plain objects", { nested: { value: 1 } }],
+	])("should round-trip %s", (_, value) => {
+		expect(roundTrip(value)).toEqual(value);
+	});
+
+	it("should round-trip undefined", () => {
+		const decoded = roundTrip({ value: undefined, list: [undefined, 1] });
+
+		expect(decoded).toHaveProperty("value", undefined);
+		expect((decoded as { list: unknown[] }).list).toEqual([undefined, 1]);
+		expect(roundTrip(undefined)).toBeUndefined();
+	});
+
+	it("should round-trip special numbers", () => {
+		expect(roundTrip(Number.NaN)).toBeNaN();
+		expect(roundTrip(Number.POSITIVE_INFINITY)).toBe(Number.POSITIVE_INFINITY);
+		expect(roundTrip(Number.NEGATIVE_INFINITY)).toBe(Number.NEGATIVE_INFINITY);
+		expect(Object.is(roundTrip(-0), -0)).toBe(true);
+	});
+
+	it("should round-trip BigInt", () => {
+		expect(roundTrip(12345678901234567890n)).toBe(12345678901234567890n);
+		expect(roundTrip(-1n)).toBe(-1n);
+	});
+
+	it("should round-trip Date", () => {
+		const decoded = roundTrip(new Date("2024-01-02T03:04:05.678Z"));
+
+		expect(decoded).toBeInstanceOf(Date);
+		expect((decoded as Date).toISOString()).toBe("2024-01-02T03:04:05.678Z");
+		expect((roundTrip(new Date(Number.NaN)) as Date).getTime()).toBeNaN();
+	});
+
+	it("should round-trip Map", () => {
+		const map = new Map<unknown, unknown>([
+			["a", 1],
+			[2, new Date(0)],
+			[{ key: true }, new Set([1])],
+		]);
+
+		const decoded = roundTrip(map);
+
+		expect(decoded).toBeInstanceOf(Map);
+		expect(decoded).toEqual(map);
+	});
+
+	it("should round-trip Set", () => {
+		const set = new Set([1, "two", 3n]);
+
+		const decoded = roundTrip(set);
+
+		expect(decoded).toBeInstanceOf(Set);
+		expect(decoded).toEqual(set);
+	});
+
+	it("should round-trip RegExp", () => {
+		const decoded = roundTrip(/^a.b$/gi);
+
+		expect(decoded).toBeInstanceOf(RegExp);
+		expect(String(decoded)).toBe("/^a.b$/gi");
+	});
+
+	it("should round-trip Uint8Array and Buffer", () => {
+		expect(roundTrip(new Uint8Array([0, 1, 255]))).toEqual(
+			new Uint8Array([0, 1, 255]),
+		);
+		expect(roundTrip(Buffer.from("text"))).toEqual(
+			new Uint8Array(Buffer.from("text")),
+		);
+	});
+
+	it("should round-trip objects using the type marker as a key", () => {
+		const value = { __t: "Date", v: 0 };
+
+		expect(roundTrip(value)).toEqual(value);
+	});
+
+	it("should store unregistered class instances as plain objects", () => {
+		class Point {
+			constructor(
+				public x: number,
+				public y: number,
+			) {}
+		}
+
+		const decoded = roundTrip(new Point(1, 2));
+
+		expect(decoded).not.toBeInstanceOf(Point);
+		expect(decoded).toEqual({ x: 1, y: 2 });
+	});
+
+	it("should store unregistered class instances by their toJSON result", () => {
+		class Money {
+			constructor(private cents: number) {}
+			toJSON() {
+				return `${this.cents / 100} EUR`;
+			}
+		}
+
+		expect(roundTrip(new Money(150))).toBe("1.5 EUR");
+	});
+
+	it("should reject circular structures", () => {
+		const value: { self?: unknown } = {};
+		value.self = value;
+
+		expect(() => richCodec.encode(createItem(value))).toThrow(TypeError);
+	});
+
+	it("should allow repeated references that are not circular", () => {
+		const shared = { value: 1 };
+
+		expect(roundTrip([shared, shared])).toEqual([shared, shared]);
+	});
+});
+
+describe("createRichCodec", () => {
+	class Point {
+		constructor(
+			public x: number,
+			public y: number,
+		) {}
+		length() {
+			return Math.hypot(this.x, this.y);
+		}
+	}
+
+	it("should restore instances of registered classes", () => {
+		const codec = createRichCodec({ classes: [Point] });
+
+		const decoded = codec.decode(
+			codec.encode(
+				createItem({ points: [new Point(3, 4)], at: new Date(0) }),
+			) as never,
+		).content as { points: Point[]; at: Date };
+
+		expect(decoded.points[0]).toBeInstanceOf(Point);
+		expect(decoded.points[0]?.length()).toBe(5);
+		expect(decoded.at).toBeInstanceOf(Date);
+	});
+
+	it("should reject classes registered under the same name", () => {
+		const First = class Point {};
+		const Second = class Point {};
+
+		expect(() => createRichCodec({ classes: [First, Second] })).toThrow(
+			"Duplicate class name: Point",
+		);
+	});
+
+	it("should fail to decode unknown classes", () => {
+		const encoded = createRichCodec({ classes: [Point] }).encode(
+			createItem(new Point(1, 2)),
+		);
+
+		expect(() => richCodec.decode(encoded as never)).toThrow(
+			"Unknown class: Point",
+		);
+	});
+});
+
+describe("jsonCodec", () => {
+	it("should round-trip JSON compatible items", () => {
+		const item = createItem({ list: [1, "two"], nested: { value: null } });
+
+		expect(jsonCodec.decode(jsonCodec.encode(item) as never)).toEqual(item);
+	});
+
+	it("should produce plain JSON", () => {
+		const encoded = jsonCodec.encode(createItem(new Date(0)));
+
+		expect(JSON.parse(encoded as string).content).toBe(
+			"1970-01-01T00:00:00.000Z",
+		);
+	});
+});
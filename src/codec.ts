@@ -0,0 +1,214 @@
+import type { CachedItem } from "./cacheContainer.ts";
+
+/**
+ * Serializes cached items for storages that keep them outside of the process memory.
+ * Text codecs produce strings, binary codecs produce bytes; storages pick their representation by `format`.
+ */
+export type Codec =
+	| {
+			format: "text";
+			encode(item: CachedItem): string;
+			decode(data: string): CachedItem;
+	  }
+	| {
+			format: "binary";
+			encode(item: CachedItem): Uint8Array;
+			decode(data: Uint8Array): CachedItem;
+	  };
+
+/**
+ * Plain JSON, compatible with any other JSON consumer.
+ * `Date`s turn into strings, `Map`s and `Set`s into empty objects, `undefined` properties are dropped and `BigInt`s throw.
+ */
+export const jsonCodec: Codec = {
+	format: "text",
+	encode: (item) => JSON.stringify(item),
+	decode: (data) => JSON.parse(data) as CachedItem,
+};
+
+type Class = abstract new (...args: never[]) => object;
+
+type JsonValue =
+	| null
+	| boolean
+	| number
+	| string
+	| JsonValue[]
+	| { [key: string]: JsonValue };
+
+/** Marks objects standing in for values JSON cannot represent */
+const TYPE_KEY = "__t";
+
+const isPlainObject = (value: object) => {
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+};
+
+const encodeEntries = (
+	value: object,
+	encode: (value: unknown) => JsonValue,
+): { [key: string]: JsonValue } =>
+	Object.fromEntries(
+		Object.entries(value).map(([key, entry]) => [key, encode(entry)]),
+	);
+
+/**
+ * Creates a JSON based codec preserving `undefined`, `NaN`, `Infinity`, `-0`, `BigInt`, `Date`, `Map`, `Set`,
+ * `RegExp` and `Uint8Array` (including `Buffer`, which is decoded as `Uint8Array`).
+ *
+ * Instances of the given classes are restored with their prototype and own enumerable properties,
+ * their constructor is not called. Instances of other classes are stored like plain objects,
+ * or by their `toJSON()` result if they have one.
+ *
+ * @param options.classes - classes whose instances should be restored, identified by their name
+ */
+export const createRichCodec = ({
+	classes = [],
+}: {
+	classes?: Class[];
+} = {}): Codec => {
+	const classesByName = new Map<string, Class>();
+	for (const registeredClass of classes) {
+		if (classesByName.has(registeredClass.name)) {
+			throw new Error(`Duplicate class name: ${registeredClass.name}`);
+		}
+		classesByName.set(registeredClass.name, registeredClass);
+	}
+
+	const encodeValue = (value: unknown, ancestors: Set<object>): JsonValue => {
+		switch (typeof value) {
+			case "undefined":
+			case "function":
+			case "symbol":
+				return { [TYPE_KEY]: "undefined" };
+			case "bigint":
+				return { [TYPE_KEY]: "BigInt", v: value.toString() };
+			case "number":
+				return Number.isFinite(value) && !Object.is(value, -0)
+					? value
+					: {
+							[TYPE_KEY]: "Number",
+							v: Object.is(value, -0) ? "-0" : String(value),
+						};
+			case "boolean":
+			case "string":
+				return value;
+		}
+		if (typeof value !== "object" || value === null) return null;
+
+		if (ancestors.has(value)) {
+			throw new TypeError("Circular structures can not be encoded");
+		}
+		ancestors.add(value);
+		try {
+			const encode = (entry: unknown) => encodeValue(entry, ancestors);
+
+			if (Array.isArray(value)) return Array.from(value, encode);
+			if (value instanceof Date) {
+				return { [TYPE_KEY]: "Date", v: encode(value.getTime()) };
+			}
+			if (value instanceof Map) {
+				return {
+					[TYPE_KEY]: "Map",
+					v: Array.from(value, ([key, entry]) => [encode(key), encode(entry)]),
+				};
+			}
+			if (value instanceof Set) {
+				return { [TYPE_KEY]: "Set", v: Array.from(value, encode) };
+			}
+			if (value instanceof RegExp) {
+				return { [TYPE_KEY]: "RegExp", v: [value.source, value.flags] };
+			}
+			if (value instanceof Uint8Array) {
+				return {
+					[TYPE_KEY]: "Uint8Array",
+					v: Buffer.from(value).toString("base64"),
+				};
+			}
+			if (isPlainObject(value)) {
+				const entries = encodeEntries(value, encode);
+				return Object.hasOwn(value, TYPE_KEY)
+					? { [TYPE_KEY]: "Object", v: entries }
+					: entries;
+			}
+
+			const name = value.constructor?.name;
+			if (name !== undefined && classesByName.get(name) === value.constructor) {
+				return {
+					[TYPE_KEY]: "Class",
+					n: name,
+					v: encodeEntries(value, encode),
+				};
+			}
+			if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+				return encode((value as { toJSON: () => unknown }).toJSON());
+			}
+			return encodeEntries(value, encode);
+		} finally {
+			ancestors.delete(value);
+		}
+	};
+
+	const decodeEntries = (value: { [key: string]: JsonValue }) =>
+		Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, decodeValue(entry)]),
+		);
+
+	const decodeValue = (value: JsonValue): unknown => {
+		if (value === null || typeof value !== "object") return value;
+		if (Array.isArray(value)) return value.map(decodeValue);
+
+		const type = value[TYPE_KEY];
+		if (type === undefined) return decodeEntries(value);
+
+		const { v: data, n: className } = value;
+		switch (type) {
+			case "undefined":
+				return undefined;
+			case "BigInt":
+				return BigInt(data as string);
+			case "Number":
+				return Number(data);
+			case "Date":
+				return new Date(decodeValue(data as JsonValue) as number);
+			case "Map":
+				return new Map(
+					(data as [JsonValue, JsonValue][]).map(([key, entry]) => [
+						decodeValue(key),
+						decodeValue(entry),
+					]),
+				);
+			case "Set":
+				return new Set((data as JsonValue[]).map(decodeValue));
+			case "RegExp": {
+				const [source, flags] = data as [string, string];
+				return new RegExp(source, flags);
+			}
+			case "Uint8Array":
+				return new Uint8Array(Buffer.from(data as string, "base64"));
+			case "Object":
+				return decodeEntries(data as { [key: string]: JsonValue });
+			case "Class": {
+				const registeredClass = classesByName.get(className as string);
+				if (!registeredClass) throw new Error(`Unknown class: ${className}`);
+				return Object.assign(
+					Object.create(registeredClass.prototype),
+					decodeEntries(data as { [key: string]: JsonValue }),
+				);
+			}
+			default:
+				throw new Error(`Unknown encoded type: ${type}`);
+		}
+	};
+
+	return {
+		format: "text",
+		encode: (item) => JSON.stringify(encodeValue(item, new Set())),
+		decode: (data) => decodeValue(JSON.parse(data)) as CachedItem,
+	};
+};
+
+/**
+ * Rich codec without registered classes, see `createRichCodec`
+ */
+export const richCodec = createRichCodec();
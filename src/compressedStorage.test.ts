@@ -0,0 +1,202 @@
+import * as zlib from "node:zlib";
+import { beforeEach, describe, expect, it } from "vitest";
+import { CacheContainer, type CachedItem } from "./cacheContainer.ts";
+import { richCodec } from "./codec.ts";
+import { CompressedStorage } from "./compressedStorage.ts";
+import { LRUStorage } from "./lruStorage.ts";
+
+describe("CompressedStorage", () => {
+	let inner: LRUStorage;
+	let storage: CompressedStorage;
+
+	const createItem = (
+		content: unknown,
+		meta: Partial<CachedItem["meta"]> = {},
+	): CachedItem => ({
+		content,
+		meta: {
+			createdAt: Date.now(),
+			ttl: null,
+			staleTtl: null,
+			...meta,
+		},
+	});
+
+	const largeContent = {
+		users: Array.from({ length: 100 }, (_, i) => ({
+			id: i,
+			name: `user-${i}`,
+			description: "a rather repetitive description",
+		})),
+	};
+
+	beforeEach(() => {
+		inner = new LRUStorage({ max: 100 });
+		storage = new CompressedStorage(inner);
+	});
+
+	describe("setItem and getItem", () => {
+		it("should store small items as they are", async () => {
+			const item = createItem("small");
+
+			await storage.setItem("key", item);
+
+			expect(await inner.getItem("key")).toEqual(item);
+			expect(await storage.getItem("key")).toEqual(item);
+		});
+
+		it("should compress items above the threshold", async () => {
+			const item = createItem(largeContent, { ttl: 1000 });
+
+			await storage.setItem("key", item);
+
+			const stored = await inner.getItem("key");
+			expect(stored?.meta).toEqual({ ...item.meta, compression: "gzip" });
+			expect(typeof stored?.content).toBe("string");
+			expect((stored?.content as string).length).toBeLessThan(
+				JSON.stringify(largeContent).length,
+			);
+			expect(await storage.getItem("key")).toEqual(item);
+		});
+
+		it("should respect a custom threshold", async () => {
+			const compressAll = new CompressedStorage(inner, { threshold: 0 });
+
+			await compressAll.setItem("key", createItem("small"));
+
+			expect((await inner.getItem("key"))?.meta.compression).toBe("gzip");
+			expect((await compressAll.getItem("key"))?.content).toBe("small");
+		});
+
+		it("should return undefined for non-existent key", async () => {
+			expect(await storage.getItem("missing")).toBeUndefined();
+		});
+
+		it("should read uncompressed legacy entries", async () => {
+			const item = createItem(largeContent);
+			await inner.setItem("legacy", item);
+
+			expect(await storage.getItem("legacy")).toEqual(item);
+		});
+
+		it("should treat corrupted compressed entries as misses", async () => {
+			await inner.setItem(
+				"key",
+				createItem("bm90IGd6aXA=", { compression: "gzip" }),
+			);
+
+			expect(await storage.getItem("key")).toBeUndefined();
+		});
+
+		it("should serialize with the given codec", async () => {
+			const richStorage = new CompressedStorage(inner, {
+				threshold: 0,
+				codec: richCodec,
+			});
+			const item = createItem({ at: new Date(0), ids: new Set([1n]) });
+
+			await richStorage.setItem("key", item);
+
+			expect(await richStorage.getItem("key")).toEqual(item);
+		});
+	});
+
+	describe("algorithms", () => {
+		it.each([
+			["gzip", true],
+			["brotli", true],
+			["zstd", typeof zlib.zstdCompress === "function"],
+		] as const)(
+			"should round-trip items with %s",
+			async (algorithm, available) => {
+				if (!available) {
+					expect(() => new CompressedStorage(inner, { algorithm })).toThrow(
+						"not available",
+					);
+					return;
+				}
+
+				const compressed = new CompressedStorage(inner, {
+					algorithm,
+					level: 3,
+				});
+				const item = createItem(largeContent);
+
+				await compressed.setItem("key", item);
+
+				expect((await inner.getItem("key"))?.meta.compression).toBe(algorithm);
+				expect(await compressed.getItem("key")).toEqual(item);
+				// entries are decompressed by their marker, whatever algorithm is configured
+				expect(await storage.getItem("key")).toEqual(item);
+			},
+		);
+	});
+
+	describe("meta", () => {
+		it("should keep TTL handling of the container working", async () => {
+			const container = new CacheContainer(storage);
+
+			await container.setItem("key", largeContent, { ttl: 20, staleTtl: 50 });
+			expect((await container.getItem("key"))?.meta.state).toBe("fresh");
+
+			await new Promise((resolve) => setTimeout(resolve, 30));
+			const stale = await container.getItem("key");
+			expect(stale?.meta.state).toBe("stale");
+			expect(stale?.content).toEqual(largeContent);
+		});
+	});
+
+	describe("batch operations", () => {
+		it("should compress and decompress in setMany and getMany", async () => {
+			const small = createItem("small");
+			const large = createItem(largeContent);
+
+			await storage.setMany([
+				["small", small],
+				["large", large],
+			]);
+
+			expect((await inner.getItem("large"))?.meta.compression).toBe("gzip");
+			expect(await storage.getMany(["large", "missing", "small"])).toEqual([
+				large,
+				undefined,
+				small,
+			]);
+		});
+
+		it("should remove items in removeMany", async () => {
+			await storage.setItem("key1", createItem(largeContent));
+			await storage.setItem("key2", createItem("small"));
+
+			await storage.removeMany(["key1", "key2"]);
+
+			expect(await storage.getMany(["key1", "key2"])).toEqual([
+				undefined,
+				undefined,
+			]);
+		});
+	});
+
+	describe("keys", () => {
+		it("should enumerate the keys of the wrapped storage", async () => {
+			await storage.setItem("a:1", createItem(largeContent));
+			await storage.setItem("b:1", createItem("small"));
+
+			const keys: string[] = [];
+			for await (const key of storage.keys?.("a:") ?? []) keys.push(key);
+
+			expect(keys).toEqual(["a:1"]);
+		});
+
+		it("should not support key enumeration if the wrapped storage does not", () => {
+			const plain = new CompressedStorage({
+				getItem: async () => undefined,
+				setItem: async () => {},
+				removeItem: async () => {},
+				clear: async () => {},
+			});
+
+			expect(plain.keys).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,202 @@
+import { promisify } from "node:util";
+import * as zlib from "node:zlib";
+import type { CachedItem } from "./cacheContainer.ts";
+import { type Codec, jsonCodec } from "./codec.ts";
+import { debug } from "./debug.ts";
+import { getMany, removeMany, type Storage, setMany } from "./storage.ts";
+
+export type CompressionAlgorithm = NonNullable<
+	CachedItem["meta"]["compression"]
+>;
+
+export type CompressedStorageOptions = {
+	/**
+	 * Compression algorithm for new items, zstd requires a Node.js version shipping `zlib.zstdCompress`
+	 * @default "gzip"
+	 */
+	algorithm?: CompressionAlgorithm;
+	/**
+	 * Minimum size of the serialized item in bytes to compress it, smaller items are stored as they are
+	 * @default 1024
+	 */
+	threshold?: number;
+	/** Compression level of the algorithm, defaults to the zlib default */
+	level?: number;
+	/**
+	 * Codec used to serialize items before compressing them
+	 * @default jsonCodec
+	 */
+	codec?: Codec;
+};
+
+type Compressor = {
+	compress(data: Buffer, level: number | undefined): Promise<Buffer>;
+	decompress(data: Buffer): Promise<Buffer>;
+};
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+/** zstd is only available from Node.js 22.15 on */
+const zstd =
+	typeof zlib.zstdCompress === "function"
+		? {
+				compress: promisify(zlib.zstdCompress),
+				decompress: promisify(zlib.zstdDecompress),
+			}
+		: undefined;
+
+const compressors: Record<CompressionAlgorithm, Compressor | undefined> = {
+	gzip: {
+		compress: (data, level) => gzip(data, level === undefined ? {} : { level }),
+		decompress: (data) => gunzip(data),
+	},
+	brotli: {
+		compress: (data, level) =>
+			brotliCompress(
+				data,
+				level === undefined
+					? {}
+					: { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level } },
+			),
+		decompress: (data) => brotliDecompress(data),
+	},
+	zstd: zstd && {
+		compress: (data, level) =>
+			zstd.compress(
+				data,
+				level === undefined
+					? {}
+					: { params: { [zlib.constants.ZSTD_c_compressionLevel]: level } },
+			),
+		decompress: (data) => zstd.decompress(data),
+	},
+};
+
+/**
+ * Storage decorator compressing large items before handing them to the wrapped storage.
+ *
+ * Items whose serialized form exceeds the threshold are stored with their compressed form as base64 `content`,
+ * the algorithm is recorded in `meta.compression`. The remaining `meta` fields stay untouched, so the wrapped storage
+ * can still apply TTLs. Items without marker, like small items or entries written before wrapping, are returned as they are.
+ */
+export class CompressedStorage implements Storage {
+	private storage: Storage;
+	/** iterates over the keys of the wrapped storage, only defined if it supports key enumeration */
+	keys?: (prefix?: string) => AsyncIterable<string>;
+	private compressor: Compressor;
+	private algorithm: CompressionAlgorithm;
+	private threshold: number;
+	private level: number | undefined;
+	private codec: Codec;
+
+	constructor(
+		storage: Storage,
+		{
+			algorithm = "gzip",
+			threshold = 1024,
+			level,
+			codec = jsonCodec,
+		}: CompressedStorageOptions = {},
+	) {
+		const compressor = compressors[algorithm];
+		if (!compressor) {
+			throw new Error(
+				`Compression algorithm ${algorithm} is not available in this Node.js version`,
+			);
+		}
+
+		this.storage = storage;
+		this.compressor = compressor;
+		this.algorithm = algorithm;
+		this.threshold = threshold;
+		this.level = level;
+		this.codec = codec;
+		if (storage.keys) this.keys = storage.keys.bind(storage);
+	}
+
+	async clear(): Promise<void> {
+		await this.storage.clear();
+	}
+
+	async getItem(key: string): Promise<CachedItem | undefined> {
+		return this.decompress(key, await this.storage.getItem(key));
+	}
+
+	async setItem(key: string, content: CachedItem): Promise<void> {
+		await this.storage.setItem(key, await this.compress(content));
+	}
+
+	async removeItem(key: string): Promise<void> {
+		await this.storage.removeItem(key);
+	}
+
+	async getMany(keys: string[]): Promise<Array<CachedItem | undefined>> {
+		const items = await getMany(this.storage, keys);
+		return Promise.all(
+			items.map((item, i) => this.decompress(keys[i] as string, item)),
+		);
+	}
+
+	async setMany(
+		entries: Array<[key: string, content: CachedItem]>,
+	): Promise<void> {
+		await setMany(
+			this.storage,
+			await Promise.all(
+				entries.map(
+					async ([key, content]): Promise<[string, CachedItem]> => [
+						key,
+						await this.compress(content),
+					],
+				),
+			),
+		);
+	}
+
+	async removeMany(keys: string[]): Promise<void> {
+		await removeMany(this.storage, keys);
+	}
+
+	private async compress(item: CachedItem): Promise<CachedItem> {
+		const serialized =
+			this.codec.format === "text"
+				? Buffer.from(this.codec.encode(item), "utf8")
+				: Buffer.from(this.codec.encode(item));
+		if (serialized.byteLength < this.threshold) return item;
+
+		const compressed = await this.compressor.compress(serialized, this.level);
+		return {
+			content: compressed.toString("base64"),
+			meta: { ...item.meta, compression: this.algorithm },
+		};
+	}
+
+	private async decompress(
+		key: string,
+		item: CachedItem | undefined,
+	): Promise<CachedItem | undefined> {
+		if (item?.meta.compression === undefined) return item;
+
+		const { compression, ...meta } = item.meta;
+		try {
+			const compressor = compressors[compression];
+			if (!compressor) {
+				throw new Error(`${compression} is not available`);
+			}
+			const serialized = await compressor.decompress(
+				Buffer.from(item.content as string, "base64"),
+			);
+			const decoded =
+				this.codec.format === "text"
+					? this.codec.decode(serialized.toString("utf8"))
+					: this.codec.decode(new Uint8Array(serialized));
+			return { content: decoded.content, meta };
+		} catch (error) {
+			debug(`Ignoring undecompressable item for ${key}: ${error}`);
+			return undefined;
+		}
+	}
+}
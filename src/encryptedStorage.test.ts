@@ -0,0 +1,248 @@
+import { randomBytes } from "node:crypto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { CacheContainer, type CachedItem } from "./cacheContainer.ts";
+import { richCodec } from "./codec.ts";
+import { CompressedStorage } from "./compressedStorage.ts";
+import { EncryptedStorage } from "./encryptedStorage.ts";
+import { LRUStorage } from "./lruStorage.ts";
+
+describe("EncryptedStorage", () => {
+	const keys = { "2024": randomBytes(32), "2025": randomBytes(32) };
+
+	let inner: LRUStorage;
+	let storage: EncryptedStorage;
+	let errors: Array<{ error: unknown; key: string }>;
+
+	const createItem = (
+		content: unknown,
+		meta: Partial<CachedItem["meta"]> = {},
+	): CachedItem => ({
+		content,
+		meta: {
+			createdAt: Date.now(),
+			ttl: null,
+			staleTtl: null,
+			...meta,
+		},
+	});
+
+	beforeEach(() => {
+		inner = new LRUStorage({ max: 100 });
+		errors = [];
+		storage = new EncryptedStorage(inner, {
+			keys,
+			currentKeyId: "2025",
+			onDecryptionError: (error, key) => errors.push({ error, key }),
+		});
+	});
+
+	describe("setItem and getItem", () => {
+		it("should store content encrypted and read it back", async () => {
+			const item = createItem({ email: "jane@example.com" }, { ttl: 1000 });
+
+			await storage.setItem("user:1", item);
+
+			const stored = await inner.getItem("user:1");
+			expect(stored?.meta).toEqual({ ...item.meta, encryptionKeyId: "2025" });
+			expect(JSON.stringify(stored)).not.toContain("jane@example.com");
+			expect(await storage.getItem("user:1")).toEqual(item);
+			expect(errors).toEqual([]);
+		});
+
+		it("should use a new IV for every write", async () => {
+			await storage.setItem("key1", createItem("same"));
+			await storage.setItem("key2", createItem("same"));
+
+			expect((await inner.getItem("key1"))?.content).not.toBe(
+				(await inner.getItem("key2"))?.content,
+			);
+		});
+
+		it("should return undefined for non-existent key", async () => {
+			expect(await storage.getItem("missing")).toBeUndefined();
+			expect(errors).toEqual([]);
+		});
+
+		it("should serialize with the given codec", async () => {
+			const richStorage = new EncryptedStorage(inner, {
+				keys,
+				currentKeyId: "2025",
+				codec: richCodec,
+			});
+			const item = createItem({ at: new Date(0), ids: new Set([1n]) });
+
+			await richStorage.setItem("key", item);
+
+			expect(await richStorage.getItem("key")).toEqual(item);
+		});
+	});
+
+	describe("key rotation", () => {
+		it("should read items encrypted with a retired key", async () => {
+			const previous = new EncryptedStorage(inner, {
+				keys,
+				currentKeyId: "2024",
+			});
+			const item = createItem("content");
+			await previous.setItem("key", item);
+
+			expect(await storage.getItem("key")).toEqual(item);
+
+			await storage.setItem("key", item);
+			expect((await inner.getItem("key"))?.meta.encryptionKeyId).toBe("2025");
+		});
+
+		it("should report items encrypted with an unknown key as misses", async () => {
+			const other = new EncryptedStorage(inner, {
+				keys: { other: randomBytes(32) },
+				currentKeyId: "other",
+			});
+			await other.setItem("key", createItem("content"));
+
+			expect(await storage.getItem("key")).toBeUndefined();
+			expect(errors).toHaveLength(1);
+			expect(String(errors[0]?.error)).toContain("Unknown encryption key id");
+		});
+	});
+
+	describe("authentication", () => {
+		it("should report tampered content as a miss", async () => {
+			await storage.setItem("key", createItem("content"));
+			const stored = (await inner.getItem("key")) as CachedItem;
+			const data = Buffer.from(stored.content as string, "base64");
+			data[data.length - 1] = (data[data.length - 1] as number) ^ 1;
+			await inner.setItem("key", {
+				...stored,
+				content: data.toString("base64"),
+			});
+
+			expect(await storage.getItem("key")).toBeUndefined();
+			expect(errors.map(({ key }) => key)).toEqual(["key"]);
+		});
+
+		it("should report content moved to another key as a miss", async () => {
+			await storage.setItem("user:1", createItem("content"));
+			await inner.setItem(
+				"user:2",
+				(await inner.getItem("user:1")) as CachedItem,
+			);
+
+			expect(await storage.getItem("user:2")).toBeUndefined();
+			expect(errors.map(({ key }) => key)).toEqual(["user:2"]);
+		});
+
+		it("should report content encrypted with a different key under the same id as a miss", async () => {
+			const other = new EncryptedStorage(inner, {
+				keys: { "2025": randomBytes(32) },
+				currentKeyId: "2025",
+			});
+			await other.setItem("key", createItem("content"));
+
+			expect(await storage.getItem("key")).toBeUndefined();
+			expect(errors).toHaveLength(1);
+		});
+
+		it("should not throw into CacheContainer.getItem", async () => {
+			const container = new CacheContainer(storage);
+			await inner.setItem(
+				"key",
+				createItem("not encrypted", { encryptionKeyId: "2025" }),
+			);
+
+			await expect(container.getItem("key")).resolves.toBeUndefined();
+			expect(errors).toHaveLength(1);
+		});
+
+		it("should report a miss if onDecryptionError throws", async () => {
+			const throwing = new EncryptedStorage(inner, {
+				keys,
+				currentKeyId: "2025",
+				onDecryptionError: () => {
+					throw new Error("hook failed");
+				},
+			});
+			await inner.setItem(
+				"key",
+				createItem("not encrypted", { encryptionKeyId: "2025" }),
+			);
+
+			await expect(
+				new CacheContainer(throwing).getItem("key"),
+			).resolves.toBeUndefined();
+		});
+	});
+
+	describe("unencrypted items", () => {
+		it("should treat unencrypted items as misses by default", async () => {
+			await inner.setItem("key", createItem("plain"));
+
+			expect(await storage.getItem("key")).toBeUndefined();
+			expect(String(errors[0]?.error)).toContain("not encrypted");
+		});
+
+		it("should return unencrypted items with allowUnencrypted", async () => {
+			const migrating = new EncryptedStorage(inner, {
+				keys,
+				currentKeyId: "2025",
+				allowUnencrypted: true,
+			});
+			const item = createItem("plain");
+			await inner.setItem("key", item);
+
+			expect(await migrating.getItem("key")).toEqual(item);
+		});
+	});
+
+	describe("options", () => {
+		it("should reject keys of the wrong length", () => {
+			expect(
+				() =>
+					new EncryptedStorage(inner, {
+						keys: { short: randomBytes(16) },
+						currentKeyId: "short",
+					}),
+			).toThrow("must be 32 bytes long");
+		});
+
+		it("should reject an unknown current key id", () => {
+			expect(
+				() => new EncryptedStorage(inner, { keys, currentKeyId: "missing" }),
+			).toThrow("Unknown current encryption key id");
+		});
+	});
+
+	describe("batch operations", () => {
+		it("should encrypt and decrypt in setMany and getMany", async () => {
+			const first = createItem("first");
+			const second = createItem("second");
+
+			await storage.setMany([
+				["key1", first],
+				["key2", second],
+			]);
+
+			expect((await inner.getItem("key1"))?.meta.encryptionKeyId).toBe("2025");
+			expect(await storage.getMany(["key2", "missing", "key1"])).toEqual([
+				second,
+				undefined,
+				first,
+			]);
+		});
+	});
+
+	it("should compress before encrypting when wrapped by CompressedStorage", async () => {
+		const combined = new CompressedStorage(storage, { threshold: 0 });
+		const item = createItem("x".repeat(10000));
+
+		await combined.setItem("key", item);
+
+		expect((await inner.getItem("key"))?.meta).toMatchObject({
+			compression: "gzip",
+			encryptionKeyId: "2025",
+		});
+		expect(
+			((await inner.getItem("key"))?.content as string).length,
+		).toBeLessThan(1000);
+		expect(await combined.getItem("key")).toEqual(item);
+	});
+});
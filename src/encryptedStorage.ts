@@ -0,0 +1,192 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import type { CachedItem } from "./cacheContainer.ts";
+import { type Codec, jsonCodec } from "./codec.ts";
+import { debug } from "./debug.ts";
+import { getMany, removeMany, type Storage, setMany } from "./storage.ts";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+export type EncryptedStorageOptions = {
+	/** Encryption keys of 32 bytes each by their id. Keep retired keys around as long as entries encrypted with them exist */
+	keys: Record<string, Uint8Array>;
+	/** Id of the key new items are encrypted with */
+	currentKeyId: string;
+	/**
+	 * Codec used to serialize items before encrypting them
+	 * @default jsonCodec
+	 */
+	codec?: Codec;
+	/**
+	 * Whether items stored without encryption, e.g. before wrapping the storage, are returned as they are.
+	 * Otherwise they are treated as misses.
+	 * @default false
+	 */
+	allowUnencrypted?: boolean;
+	/** Called when an item can not be decrypted, e.g. because its authentication failed or its key is unknown */
+	onDecryptionError?: (error: unknown, key: string) => void;
+};
+
+/**
+ * Storage decorator encrypting items with AES-256-GCM before handing them to the wrapped storage.
+ *
+ * The serialized item is stored as base64 `content` (IV, auth tag and ciphertext), the id of the key it was
+ * encrypted with is recorded in `meta.encryptionKeyId`. The remaining `meta` fields stay readable (and unauthenticated),
+ * so the wrapped storage can still apply TTLs. The cache key is authenticated along with the content,
+ * so ciphertexts can not be moved between keys. Items that fail to decrypt are treated as misses.
+ */
+export class EncryptedStorage implements Storage {
+	private storage: Storage;
+	/** iterates over the keys of the wrapped storage, only defined if it supports key enumeration */
+	keys?: (prefix?: string) => AsyncIterable<string>;
+	private encryptionKeys: Map<string, Uint8Array>;
+	private currentKeyId: string;
+	private codec: Codec;
+	private allowUnencrypted: boolean;
+	private onDecryptionError:
+		| ((error: unknown, key: string) => void)
+		| undefined;
+
+	constructor(
+		storage: Storage,
+		{
+			keys,
+			currentKeyId,
+			codec = jsonCodec,
+			allowUnencrypted = false,
+			onDecryptionError,
+		}: EncryptedStorageOptions,
+	) {
+		for (const [keyId, key] of Object.entries(keys)) {
+			if (key.byteLength !== KEY_LENGTH) {
+				throw new Error(
+					`Encryption key ${keyId} must be ${KEY_LENGTH} bytes long, got ${key.byteLength}`,
+				);
+			}
+		}
+		if (!Object.hasOwn(keys, currentKeyId)) {
+			throw new Error(`Unknown current encryption key id: ${currentKeyId}`);
+		}
+
+		this.storage = storage;
+		this.encryptionKeys = new Map(Object.entries(keys));
+		this.currentKeyId = currentKeyId;
+		this.codec = codec;
+		this.allowUnencrypted = allowUnencrypted;
+		this.onDecryptionError = onDecryptionError;
+		if (storage.keys) this.keys = storage.keys.bind(storage);
+	}
+
+	async clear(): Promise<void> {
+		await this.storage.clear();
+	}
+
+	async getItem(key: string): Promise<CachedItem | undefined> {
+		return this.decrypt(key, await this.storage.getItem(key));
+	}
+
+	async setItem(key: string, content: CachedItem): Promise<void> {
+		await this.storage.setItem(key, this.encrypt(key, content));
+	}
+
+	async removeItem(key: string): Promise<void> {
+		await this.storage.removeItem(key);
+	}
+
+	async getMany(keys: string[]): Promise<Array<CachedItem | undefined>> {
+		const items = await getMany(this.storage, keys);
+		return items.map((item, i) => this.decrypt(keys[i] as string, item));
+	}
+
+	async setMany(
+		entries: Array<[key: string, content: CachedItem]>,
+	): Promise<void> {
+		await setMany(
+			this.storage,
+			entries.map(([key, content]) => [key, this.encrypt(key, content)]),
+		);
+	}
+
+	async removeMany(keys: string[]): Promise<void> {
+		await removeMany(this.storage, keys);
+	}
+
+	private encrypt(key: string, item: CachedItem): CachedItem {
+		const serialized =
+			this.codec.format === "text"
+				? Buffer.from(this.codec.encode(item), "utf8")
+				: this.codec.encode(item);
+
+		const iv = randomBytes(IV_LENGTH);
+		const cipher = createCipheriv(
+			ALGORITHM,
+			this.encryptionKeys.get(this.currentKeyId) as Uint8Array,
+			iv,
+			{ authTagLength: AUTH_TAG_LENGTH },
+		);
+		cipher.setAAD(Buffer.from(key, "utf8"));
+		const ciphertext = Buffer.concat([
+			cipher.update(serialized),
+			cipher.final(),
+		]);
+
+		return {
+			content: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+				"base64",
+			),
+			meta: { ...item.meta, encryptionKeyId: this.currentKeyId },
+		};
+	}
+
+	private decrypt(
+		key: string,
+		item: CachedItem | undefined,
+	): CachedItem | undefined {
+		if (item === undefined) return undefined;
+
+		const { encryptionKeyId, ...meta } = item.meta;
+		try {
+			if (encryptionKeyId === undefined) {
+				if (this.allowUnencrypted) return item;
+				throw new Error("Item is not encrypted");
+			}
+
+			const encryptionKey = this.encryptionKeys.get(encryptionKeyId);
+			if (!encryptionKey) {
+				throw new Error(`Unknown encryption key id: ${encryptionKeyId}`);
+			}
+
+			const data = Buffer.from(item.content as string, "base64");
+			const decipher = createDecipheriv(
+				ALGORITHM,
+				encryptionKey,
+				data.subarray(0, IV_LENGTH),
+				{ authTagLength: AUTH_TAG_LENGTH },
+			);
+			decipher.setAAD(Buffer.from(key, "utf8"));
+			decipher.setAuthTag(
+				data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH),
+			);
+			const serialized = Buffer.concat([
+				decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+				decipher.final(),
+			]);
+
+			const decoded =
+				this.codec.format === "text"
+					? this.codec.decode(serialized.toString("utf8"))
+					: this.codec.decode(new Uint8Array(serialized));
+			return { content: decoded.content, meta };
+		} catch (error) {
+			debug(`Ignoring undecryptable item for ${key}: ${error}`);
+			try {
+				this.onDecryptionError?.(error, key);
+			} catch (hookError) {
+				debug(`onDecryptionError of encrypted storage failed: ${hookError}`);
+			}
+			return undefined;
+		}
+	}
+}
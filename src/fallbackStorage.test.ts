@@ -1,5 +1,5 @@
-import { beforeEach, describe, expect, it } from "vitest";
-import type { CachedItem } from "./cacheContainer.ts";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CacheContainer, type CachedItem } from "./cacheContainer.ts";
 import { FallbackStorage } from "./fallbackStorage.ts";
 import type { Storage } from "./storage.ts";
 
@@ -11,6 +11,7 @@ class MockStorage implements Storage {
 		setItem: 0,
 		removeItem: 0,
 		clear: 0,
+		setMany: 0,
 	};
 
 	async getItem(key: string): Promise<CachedItem | undefined> {
@@ -33,6 +34,19 @@ class MockStorage implements Storage {
 		this.items.clear();
 	}
 
+	async setMany(entries: Array<[string, CachedItem]>): Promise<void> {
+		this.callCounts.setMany++;
+		for (const [key, content] of entries) {
+			this.items.set(key, content);
+		}
+	}
+
+	async *keys(prefix = ""): AsyncIterable<string> {
+		for (const key of this.items.keys()) {
+			if (key.startsWith(prefix)) yield key;
+		}
+	}
+
 	getStoredItems(): Map<string, CachedItem> {
 		return new Map(this.items);
 	}
@@ -44,10 +58,28 @@ class MockStorage implements Storage {
 			setItem: 0,
 			removeItem: 0,
 			clear: 0,
+			setMany: 0,
 		};
 	}
 }
 
+class FailingStorage extends MockStorage {
+	override async setItem(): Promise<void> {
+		throw new Error("Write failed");
+	}
+
+	override async setMany(): Promise<void> {
+		throw new Error("Write failed");
+	}
+}
+
+class SlowStorage extends MockStorage {
+	override async setMany(entries: Array<[string, CachedItem]>): Promise<void> {
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		await super.setMany(entries);
+	}
+}
+
 describe("FallbackStorage", () => {
 	let primaryStorage: MockStorage;
 	let secondaryStorage: MockStorage;
@@ -594,4 +626,600 @@ describe("FallbackStorage", () => {
 			expect(tertiaryStorage.callCounts.setItem).toBe(initialTertiarySetCalls);
 		});
 	});
+
+	describe("keys", () => {
+		const collect = async (storage: Storage, prefix?: string) => {
+			const result: string[] = [];
+			for await (const key of storage.keys?.(prefix) ?? []) result.push(key);
+			return result;
+		};
+
+		it("should merge and de-duplicate keys across all storages", async () => {
+			await primaryStorage.setItem("a:1", createItem(1));
+			await secondaryStorage.setItem("a:1", createItem(1));
+			await secondaryStorage.setItem("a:2", createItem(2));
+			await tertiaryStorage.setItem("a:3", createItem(3));
+			await tertiaryStorage.setItem("b:1", createItem(4));
+
+			expect((await collect(fallbackStorage, "a:")).sort()).toEqual([
+				"a:1",
+				"a:2",
+				"a:3",
+			]);
+		});
+
+		it("should not support key enumeration if any storage does not", async () => {
+			await primaryStorage.setItem("a:1", createItem(1));
+			const storage = new FallbackStorage([
+				primaryStorage,
+				{
+					getItem: async () => undefined,
+					setItem: async () => {},
+					removeItem: async () => {},
+					clear: async () => {},
+				},
+			]);
+
+			expect(storage.keys).toBeUndefined();
+			await expect(
+				new CacheContainer(storage).invalidatePrefix("a:"),
+			).rejects.toThrow("does not support key enumeration");
+		});
+	});
+
+	describe("batch operations", () => {
+		it("should collect items across tiers in key order", async () => {
+			await primaryStorage.setItem("key-1", createItem(1));
+			await secondaryStorage.setItem("key-2", createItem(2));
+			await tertiaryStorage.setItem("key-3", createItem(3));
+
+			const items = await fallbackStorage.getMany([
+				"key-3",
+				"missing",
+				"key-1",
+				"key-2",
+			]);
+
+			expect(items.map((item) => item?.content)).toEqual([3, undefined, 1, 2]);
+		});
+
+		it("should only ask lower tiers for missing keys", async () => {
+			await primaryStorage.setItem("key-1", createItem(1));
+			await secondaryStorage.setItem("key-2", createItem(2));
+
+			await fallbackStorage.getMany(["key-1", "key-2"]);
+
+			expect(secondaryStorage.callCounts.getItem).toBe(1);
+			expect(tertiaryStorage.callCounts.getItem).toBe(0);
+		});
+
+		it("should write back only the misses of higher tiers", async () => {
+			await primaryStorage.setItem("key-1", createItem(1));
+			await tertiaryStorage.setItem("key-1", createItem("old"));
+			await tertiaryStorage.setItem("key-2", createItem(2));
+
+			await fallbackStorage.getMany(["key-1", "key-2"]);
+
+			expect(primaryStorage.getStoredItems().get("key-1")?.content).toBe(1);
+			expect(primaryStorage.getStoredItems().get("key-2")?.content).toBe(2);
+			expect(secondaryStorage.getStoredItems().get("key-2")?.content).toBe(2);
+			expect(secondaryStorage.getStoredItems().has("key-1")).toBe(false);
+			expect(primaryStorage.callCounts.setMany).toBe(1);
+		});
+
+		it("should set multiple items in all storages", async () => {
+			await fallbackStorage.setMany([
+				["key-1", createItem(1)],
+				["key-2", createItem(2)],
+			]);
+			await new Promise((resolve) => setTimeout(resolve, 0));
+
+			for (const storage of [
+				primaryStorage,
+				secondaryStorage,
+				tertiaryStorage,
+			]) {
+				expect(storage.getStoredItems().size).toBe(2);
+			}
+		});
+
+		it("should remove multiple items from all storages", async () => {
+			await primaryStorage.setItem("key-1", createItem(1));
+			await secondaryStorage.setItem("key-2", createItem(2));
+			await tertiaryStorage.setItem("key-3", createItem(3));
+
+			await fallbackStorage.removeMany(["key-1", "key-2", "key-3"]);
+
+			expect(primaryStorage.getStoredItems().size).toBe(0);
+			expect(secondaryStorage.getStoredItems().size).toBe(0);
+			expect(tertiaryStorage.getStoredItems().size).toBe(0);
+		});
+	});
+
+	describe("write modes", () => {
+		it("should wait for all storages with await-all", async () => {
+			let resolveSecondary = () => {};
+			const slowStorage = new MockStorage();
+			slowStorage.setItem = () =>
+				new Promise<void>((resolve) => {
+					resolveSecondary = resolve;
+				});
+			const storage = new FallbackStorage([primaryStorage, slowStorage], {
+				writeMode: "await-all",
+			});
+
+			let settled = false;
+			const pending = storage.setItem("key", createItem(1)).then(() => {
+				settled = true;
+			});
+			await new Promise((resolve) => setTimeout(resolve, 10));
+
+			expect(settled).toBe(false);
+			resolveSecondary();
+			await pending;
+			expect(settled).toBe(true);
+		});
+
+		it("should reject with the failure of any storage with await-all", async () => {
+			const onErrorCalls: unknown[] = [];
+			const storage = new FallbackStorage(
+				[primaryStorage, new FailingStorage()],
+				{
+					writeMode: "await-all",
+					onError: (error) => onErrorCalls.push(error),
+				},
+			);
+
+			await expect(storage.setItem("key", createItem(1))).rejects.toThrow(
+				"Write failed",
+			);
+			await expect(storage.setMany([["key", createItem(1)]])).rejects.toThrow(
+				"Write failed",
+			);
+			expect(primaryStorage.getStoredItems().has("key")).toBe(true);
+			expect(onErrorCalls).toEqual([]);
+		});
+
+		it("should reject with the failure of the primary storage with await-primary", async () => {
+			const storage = new FallbackStorage([
+				new FailingStorage(),
+				secondaryStorage,
+			]);
+
+			await expect(storage.setItem("key", createItem(1))).rejects.toThrow(
+				"Write failed",
+			);
+		});
+
+		it("should not wait for any storage with fire-and-forget", async () => {
+			const onErrorCalls: unknown[] = [];
+			const storage = new FallbackStorage(
+				[new FailingStorage(), secondaryStorage],
+				{
+					writeMode: "fire-and-forget",
+					onError: (_, context) => onErrorCalls.push(context),
+				},
+			);
+
+			await expect(
+				storage.setItem("key", createItem(1)),
+			).resolves.toBeUndefined();
+			await new Promise((resolve) => setTimeout(resolve, 0));
+
+			expect(secondaryStorage.getStoredItems().has("key")).toBe(true);
+			expect(onErrorCalls).toEqual([
+				{ operation: "write", storageIndex: 0, keys: ["key"] },
+			]);
+		});
+	});
+
+	describe("error handling", () => {
+		it("should not reject background writes if onError throws", async () => {
+			const rejections: unknown[] = [];
+			const onRejection = (reason: unknown) => rejections.push(reason);
+			process.on("unhandledRejection", onRejection);
+			const storage = new FallbackStorage(
+				[primaryStorage, new FailingStorage()],
+				{
+					onError: () => {
+						throw new Error("Hook failed");
+					},
+				},
+			);
+
+			await storage.setItem("key", createItem(1));
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			process.off("unhandledRejection", onRejection);
+
+			expect(rejections).toEqual([]);
+		});
+
+		it("should report failing background writes instead of rejecting", async () => {
+			const onErrorCalls: unknown[] = [];
+			const storage = new FallbackStorage(
+				[primaryStorage, secondaryStorage, new FailingStorage()],
+				{ onError: (error, context) => onErrorCalls.push({ error, context }) },
+			);
+
+			await storage.setItem("key", createItem(1));
+			await storage.setMany([
+				["key-1", createItem(1)],
+				["key-2", createItem(2)],
+			]);
+			await new Promise((resolve) => setTimeout(resolve, 0));
+
+			expect(onErrorCalls).toEqual([
+				{
+					error: new Error("Write failed"),
+					context: { operation: "write", storageIndex: 2, keys: ["key"] },
+				},
+				{
+					error: new Error("Write failed"),
+					context: {
+						operation: "write",
+						storageIndex: 2,
+						keys: ["key-1", "key-2"],
+					},
+				},
+			]);
+		});
+
+		it("should not reject without onError", async () => {
+			const storage = new FallbackStorage([
+				primaryStorage,
+				new FailingStorage(),
+			]);
+
+			await storage.setItem("key", createItem(1));
+			await new Promise((resolve) => setTimeout(resolve, 0));
+
+			expect(primaryStorage.getStoredItems().has("key")).toBe(true);
+		});
+
+		it("should return the item when the write-back of getItem fails", async () => {
+			const onErrorCalls: unknown[] = [];
+			const storage = new FallbackStorage(
+				[new FailingStorage(), secondaryStorage],
+				{ onError: (_, context) => onErrorCalls.push(context) },
+			);
+			const item = createItem("content");
+			await secondaryStorage.setItem("key", item);
+
+			expect(await storage.getItem("key")).toEqual(item);
+			expect(onErrorCalls).toEqual([
+				{ operation: "writeBack", storageIndex: 0, keys: ["key"] },
+			]);
+		});
+
+		it("should return the items when the write-back of getMany fails", async () => {
+			const onErrorCalls: unknown[] = [];
+			const storage = new FallbackStorage(
+				[new FailingStorage(), secondaryStorage],
+				{ onError: (_, context) => onErrorCalls.push(context) },
+			);
+			const item = createItem("content");
+			await secondaryStorage.setItem("key", item);
+
+			expect(await storage.getMany(["key", "missing"])).toEqual([
+				item,
+				undefined,
+			]);
+			expect(onErrorCalls).toEqual([
+				{ operation: "writeBack", storageIndex: 0, keys: ["key"] },
+			]);
+		});
+	});
+
+	describe("write-behind", () => {
+		const createWriteBehindStorage = (
+			options: ConstructorParameters<typeof FallbackStorage>[1] = {},
+		) =>
+			new FallbackStorage([primaryStorage, secondaryStorage, tertiaryStorage], {
+				writeMode: "write-behind",
+				...options,
+				writeBehind: { flushIntervalMs: 20, ...options.writeBehind },
+			});
+
+		it("should write the primary storage right away and the others later", async () => {
+			const storage = createWriteBehindStorage();
+			const item = createItem("content");
+
+			await storage.setItem("key", item);
+
+			expect(primaryStorage.getStoredItems().get("key")).toEqual(item);
+			expect(secondaryStorage.getStoredItems().has("key")).toBe(false);
+
+			await new Promise((resolve) => setTimeout(resolve, 40));
+
+			expect(secondaryStorage.getStoredItems().get("key")).toEqual(item);
+			expect(tertiaryStorage.getStoredItems().get("key")).toEqual(item);
+		});
+
+		it("should coalesce repeated writes to the same key", async () => {
+			const storage = createWriteBehindStorage();
+
+			await storage.setItem("key", createItem(1));
+			await storage.setItem("key", createItem(2));
+			await storage.setMany([
+				["key", createItem(3)],
+				["other", createItem(4)],
+			]);
+			await storage.flush();
+
+			expect(secondaryStorage.callCounts.setMany).toBe(1);
+			expect(secondaryStorage.callCounts.setItem).toBe(0);
+			expect(secondaryStorage.getStoredItems().get("key")?.content).toBe(3);
+			expect(secondaryStorage.getStoredItems().get("other")?.content).toBe(4);
+		});
+
+		it("should write in batches", async () => {
+			const storage = createWriteBehindStorage({
+				writeBehind: { batchSize: 2 },
+			});
+
+			await storage.setMany(
+				Array.from({ length: 5 }, (_, i) => [`key-${i}`, createItem(i)]),
+			);
+			await storage.flush();
+
+			expect(secondaryStorage.callCounts.setMany).toBe(3);
+			expect(secondaryStorage.getStoredItems().size).toBe(5);
+		});
+
+		it("should flush when the queue is full", async () => {
+			const storage = createWriteBehindStorage({
+				writeBehind: { maxQueueSize: 2, flushIntervalMs: 10000 },
+			});
+
+			await storage.setItem("key-1", createItem(1));
+			await storage.setItem("key-2", createItem(2));
+			await storage.setItem("key-2", createItem(2));
+			expect(secondaryStorage.getStoredItems().size).toBe(0);
+
+			await storage.setItem("key-3", createItem(3));
+
+			expect(secondaryStorage.getStoredItems().size).toBe(2);
+			await storage.close();
+		});
+
+		it("should serve queued items when the primary storage misses", async () => {
+			const storage = createWriteBehindStorage();
+			const item = createItem("content");
+
+			await storage.setItem("key", item);
+			primaryStorage.reset();
+
+			expect(await storage.getItem("key")).toEqual(item);
+			expect(secondaryStorage.callCounts.getItem).toBe(0);
+			expect(await storage.getMany(["key", "missing"])).toEqual([
+				item,
+				undefined,
+			]);
+			await storage.close();
+		});
+
+		it("should drop queued writes of removed keys", async () => {
+			const storage = createWriteBehindStorage();
+
+			await storage.setItem("key-1", createItem(1));
+			await storage.setItem("key-2", createItem(2));
+			await storage.removeItem("key-1");
+			await storage.removeMany(["key-2"]);
+			await storage.flush();
+
+			expect(secondaryStorage.getStoredItems().size).toBe(0);
+		});
+
+		it("should drop queued writes on clear", async () => {
+			const storage = createWriteBehindStorage();
+
+			await storage.setItem("key", createItem(1));
+			await storage.clear();
+			await storage.flush();
+
+			expect(secondaryStorage.getStoredItems().size).toBe(0);
+		});
+
+		it("should report failing flushes", async () => {
+			const onErrorCalls: unknown[] = [];
+			const storage = new FallbackStorage(
+				[primaryStorage, new FailingStorage(), secondaryStorage],
+				{
+					writeMode: "write-behind",
+					onError: (_, context) => onErrorCalls.push(context),
+				},
+			);
+
+			await storage.setItem("key", createItem(1));
+			await storage.flush();
+
+			expect(secondaryStorage.getStoredItems().has("key")).toBe(true);
+			expect(onErrorCalls).toEqual([
+				{ operation: "write", storageIndex: 1, keys: ["key"] },
+			]);
+		});
+
+		it("should drain pending writes on close and write through afterwards", async () => {
+			const storage = createWriteBehindStorage({
+				writeBehind: { flushIntervalMs: 10000 },
+			});
+
+			await storage.setItem("key-1", createItem(1));
+			await storage.close();
+
+			expect(secondaryStorage.getStoredItems().has("key-1")).toBe(true);
+
+			await storage.setItem("key-2", createItem(2));
+			expect(secondaryStorage.getStoredItems().has("key-2")).toBe(true);
+			expect(tertiaryStorage.getStoredItems().has("key-2")).toBe(true);
+		});
+
+		it("should not undo removals during a running flush", async () => {
+			const slowStorage = new SlowStorage();
+			const storage = new FallbackStorage([primaryStorage, slowStorage], {
+				writeMode: "write-behind",
+			});
+
+			await storage.setItem("key-1", createItem(1));
+			await storage.setItem("key-2", createItem(2));
+			const flushing = storage.flush();
+			await storage.removeItem("key-1");
+			await storage.clear();
+			await flushing;
+
+			expect(await storage.getItem("key-1")).toBeUndefined();
+			expect(await storage.getItem("key-2")).toBeUndefined();
+			expect(slowStorage.getStoredItems().size).toBe(0);
+		});
+
+		it("should wait for a running flush", async () => {
+			const storage = createWriteBehindStorage();
+
+			await storage.setItem("key-1", createItem(1));
+			const first = storage.flush();
+			await storage.setItem("key-2", createItem(2));
+			await storage.flush();
+
+			expect(secondaryStorage.getStoredItems().size).toBe(2);
+			await first;
+		});
+	});
+
+	describe("tier policies", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		const createTieredStorage = () =>
+			new FallbackStorage([primaryStorage, secondaryStorage, tertiaryStorage], {
+				tiers: [{ maxTtl: 1000 }],
+			});
+
+		const createItemWithTtl = (
+			ttl: number | null,
+			meta: Partial<CachedItem["meta"]> = {},
+		): CachedItem => ({
+			content: "content",
+			meta: { createdAt: Date.now(), ttl, staleTtl: null, ...meta },
+		});
+
+		it("should clamp the lifetime in the storage with a maxTtl", async () => {
+			const storage = createTieredStorage();
+			const item = createItemWithTtl(60000, { staleTtl: 120000 });
+
+			await storage.setItem("key", item);
+
+			expect(primaryStorage.getStoredItems().get("key")?.meta).toEqual({
+				createdAt: item.meta.createdAt,
+				ttl: 1000,
+				staleTtl: 1000,
+				clampedFrom: { ttl: 60000, staleTtl: 120000 },
+			});
+			expect(secondaryStorage.getStoredItems().get("key")).toEqual(item);
+			expect(tertiaryStorage.getStoredItems().get("key")).toEqual(item);
+		});
+
+		it("should clamp items without ttl", async () => {
+			const storage = createTieredStorage();
+
+			await storage.setItem("key", createItemWithTtl(null));
+
+			expect(primaryStorage.getStoredItems().get("key")?.meta).toMatchObject({
+				ttl: 1000,
+				clampedFrom: { ttl: null, staleTtl: null },
+			});
+		});
+
+		it("should keep items with a shorter lifetime unchanged", async () => {
+			const storage = createTieredStorage();
+			const item = createItemWithTtl(500);
+
+			await storage.setItem("key", item);
+
+			expect(primaryStorage.getStoredItems().get("key")).toEqual(item);
+		});
+
+		it("should return the original ttl on reads", async () => {
+			const storage = createTieredStorage();
+			const item = createItemWithTtl(60000);
+
+			await storage.setItem("key", item);
+
+			expect(await storage.getItem("key")).toEqual(item);
+			expect(await storage.getMany(["key"])).toEqual([item]);
+			expect(secondaryStorage.callCounts.getItem).toBe(0);
+		});
+
+		it("should clamp write-backs relative to the time of the write-back", async () => {
+			const storage = createTieredStorage();
+			const item = createItemWithTtl(60000, {
+				createdAt: Date.now() - 30000,
+			});
+			await tertiaryStorage.setItem("key", item);
+
+			expect(await storage.getItem("key")).toEqual(item);
+
+			expect(primaryStorage.getStoredItems().get("key")?.meta.ttl).toBe(31000);
+			expect(secondaryStorage.getStoredItems().get("key")).toEqual(item);
+		});
+
+		it("should clamp batch writes and write-backs", async () => {
+			const storage = createTieredStorage();
+			await storage.setMany([["key1", createItemWithTtl(60000)]]);
+			await tertiaryStorage.setItem("key2", createItemWithTtl(60000));
+
+			await storage.getMany(["key1", "key2"]);
+
+			expect(primaryStorage.getStoredItems().get("key1")?.meta.ttl).toBe(1000);
+			expect(primaryStorage.getStoredItems().get("key2")?.meta.ttl).toBe(1000);
+		});
+
+		it("should look up items past their clamped lifetime in the lower tiers", async () => {
+			const storage = createTieredStorage();
+			const item = createItemWithTtl(60000, {
+				createdAt: Date.now() - 2000,
+			});
+			await primaryStorage.setItem("key", {
+				...item,
+				meta: {
+					...item.meta,
+					ttl: 1000,
+					clampedFrom: { ttl: 60000, staleTtl: null },
+				},
+			});
+			await secondaryStorage.setItem("key", item);
+
+			expect(await storage.getItem("key")).toEqual(item);
+			expect(secondaryStorage.callCounts.getItem).toBe(1);
+			expect(primaryStorage.getStoredItems().get("key")?.meta.ttl).toBe(3000);
+		});
+
+		it("should clamp items written by the write-behind queue", async () => {
+			const storage = new FallbackStorage(
+				[primaryStorage, secondaryStorage, tertiaryStorage],
+				{ writeMode: "write-behind", tiers: [undefined, { maxTtl: 1000 }] },
+			);
+			const item = createItemWithTtl(60000);
+
+			await storage.setItem("key", item);
+			await storage.flush();
+
+			expect(primaryStorage.getStoredItems().get("key")).toEqual(item);
+			expect(secondaryStorage.getStoredItems().get("key")?.meta.ttl).toBe(1000);
+			expect(tertiaryStorage.getStoredItems().get("key")).toEqual(item);
+		});
+
+		it("should reject a maxTtl for the lowest-priority storage", () => {
+			expect(
+				() =>
+					new FallbackStorage([primaryStorage, secondaryStorage], {
+						tiers: [undefined, { maxTtl: 1000 }],
+					}),
+			).toThrow("authoritative ttl");
+		});
+	});
 });
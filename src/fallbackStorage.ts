@@ -1,35 +1,158 @@
 import type { CachedItem } from "./cacheContainer.ts";
-import type { Storage } from "./storage.ts";
+import { debug } from "./debug.ts";
+import { getMany, removeMany, type Storage, setMany } from "./storage.ts";
+
+/**
+ * How setItem and setMany wait for the storages:
+ * - "await-all": waits for all storages and rejects with the first failure
+ * - "await-primary": waits for the primary storage, the others are written in the background
+ * - "fire-and-forget": writes all storages in the background
+ * - "write-behind": waits for the primary storage, the others are written in batches by a queue, see `writeBehind`
+ */
+export type FallbackWriteMode =
+	| "await-all"
+	| "await-primary"
+	| "fire-and-forget"
+	| "write-behind";
+
+export type WriteBehindOptions = {
+	/**
+	 * Maximum number of keys waiting in the queue. Writes wait for a flush once the queue is full.
+	 * @default 1000
+	 */
+	maxQueueSize?: number;
+	/**
+	 * Time in milliseconds after the first queued write until the queue is flushed
+	 * @default 100
+	 */
+	flushIntervalMs?: number;
+	/**
+	 * Maximum number of items written to a storage with a single setMany call
+	 * @default 100
+	 */
+	batchSize?: number;
+};
+
+export type FallbackStorageError = {
+	/** "write" for background writes of setItem and setMany, "writeBack" for write-backs of reads */
+	operation: "write" | "writeBack";
+	/** index of the failed storage */
+	storageIndex: number;
+	keys: string[];
+};
+
+/**
+ * Policy for the items a storage holds, applied on setItem, setMany and write-backs
+ */
+export type FallbackTierPolicy = {
+	/**
+	 * Maximum number of milliseconds the storage holds an item from the time it is written.
+	 * Longer ttl and staleTtl are clamped, the original values are kept in `meta.clampedFrom` and returned on reads.
+	 * Once the clamped lifetime passed, the item is looked up in the lower-priority storages.
+	 */
+	maxTtl?: number;
+};
+
+export type FallbackStorageOptions = {
+	/** @default "await-primary" */
+	writeMode?: FallbackWriteMode;
+	/**
+	 * Policies of the storages by index, e.g. `[{ maxTtl: 30_000 }]` to hold items in the first storage for 30 seconds at most.
+	 * The lowest-priority storage keeps the authoritative ttl and can not have a policy.
+	 */
+	tiers?: Array<FallbackTierPolicy | undefined>;
+	/** Options of the queue of the "write-behind" write mode */
+	writeBehind?: WriteBehindOptions;
+	/**
+	 * Called for failures that are not passed to the caller: background writes and write-backs of reads.
+	 * These failures are only logged otherwise.
+	 */
+	onError?: (error: unknown, context: FallbackStorageError) => void;
+};
 
 /**
  * Fallback Cache Provider that tries multiple storages in order.
  *
  * On getItem, it tries each storage in order until it finds a hit.
  * If a hit is found in a lower-priority storage, it writes it back to all higher-priority storages.
- * **It only guarantees writing to the highest priority storage on setItem.**
+ * Failing write-backs do not fail the read, they are reported via `onError`.
+ * **By default it only guarantees writing to the highest priority storage on setItem**, see `writeMode`.
+ *
+ * In "write-behind" mode, writes to the lower-priority storages are queued. Repeated writes to the same key are coalesced,
+ * and queued items are served to reads missing in the primary storage. Call `close()` on shutdown to drain the queue.
+ *
+ * Tier policies (see `tiers`) limit how long higher-priority storages hold items, e.g. to keep a small in-memory tier fresh.
  */
 export class FallbackStorage implements Storage {
 	private storages: [Storage, ...Storage[]];
+	/**
+	 * iterates over the keys of the storages, only defined if all of them support key enumeration,
+	 * as keys only held by the others would be missed
+	 */
+	keys?: (prefix?: string) => AsyncIterable<string>;
+	private writeMode: FallbackWriteMode;
+	private onError:
+		| ((error: unknown, context: FallbackStorageError) => void)
+		| undefined;
+	private writeBehind: Required<WriteBehindOptions>;
+	private tiers: Array<FallbackTierPolicy | undefined>;
+
+	/** Items waiting to be written to the lower-priority storages in "write-behind" mode */
+	private queue = new Map<string, CachedItem>();
+	private flushTimer: ReturnType<typeof setTimeout> | undefined;
+	private flushing: Promise<void> | undefined;
+	private closed = false;
+
+	constructor(
+		storages: [Storage, ...Storage[]],
+		{
+			writeMode = "await-primary",
+			tiers = [],
+			writeBehind: {
+				maxQueueSize = 1000,
+				flushIntervalMs = 100,
+				batchSize = 100,
+			} = {},
+			onError,
+		}: FallbackStorageOptions = {},
+	) {
+		if (tiers[storages.length - 1]?.maxTtl !== undefined) {
+			throw new Error(
+				"The lowest-priority storage keeps the authoritative ttl and can not have a maxTtl",
+			);
+		}
 
-	constructor(storages: [Storage, ...Storage[]]) {
 		this.storages = storages;
+		if (storages.every((storage) => storage.keys)) {
+			this.keys = (prefix) => this.mergedKeys(prefix);
+		}
+		this.tiers = tiers;
+		this.writeMode = writeMode;
+		this.writeBehind = { maxQueueSize, flushIntervalMs, batchSize };
+		this.onError = onError;
 	}
 
 	async clear(): Promise<void> {
+		await this.settleFlush();
+		this.queue.clear();
 		await Promise.all([...this.storages.map((storage) => storage.clear())]);
 	}
 
 	async getItem(key: string): Promise<CachedItem | undefined> {
 		for (let i = 0; i < this.storages.length; i++) {
 			const storage = this.storages[i];
-			const item = await storage?.getItem(key);
+			const item =
+				this.unclamp(await storage?.getItem(key)) ??
+				(i === 0 ? this.queue.get(key) : undefined);
 			if (item !== undefined) {
 				if (i !== 0) {
 					// Only set in higher priority storages (indices 0 to i-1)
-					await Promise.all(
-						this.storages
-							.slice(0, i)
-							.map((storage) => storage.setItem(key, item)),
+					await this.writeReported(
+						"writeBack",
+						this.storages.slice(0, i),
+						[key],
+						(storage, index) =>
+							storage.setItem(key, this.applyPolicy(index, item)),
 					);
 				}
 				return item;
@@ -39,14 +162,281 @@ export class FallbackStorage implements Storage {
 	}
 
 	async setItem(key: string, content: CachedItem): Promise<void> {
-		const [primaryStorage, ...moreStorages] = this.storages;
-		await primaryStorage.setItem(key, content);
-		void Promise.all(
-			moreStorages.map((storage) => storage.setItem(key, content)),
+		await this.write([[key, content]], (storage, index) =>
+			storage.setItem(key, this.applyPolicy(index, content)),
 		);
 	}
 
 	async removeItem(key: string): Promise<void> {
+		await this.settleFlush();
+		this.queue.delete(key);
 		await Promise.all(this.storages.map((storage) => storage.removeItem(key)));
 	}
+
+	/**
+	 * Looks up all keys tier by tier, only asking lower-priority storages for the keys still missing.
+	 * Items found in a lower-priority storage are written back to all higher-priority storages.
+	 */
+	async getMany(keys: string[]): Promise<Array<CachedItem | undefined>> {
+		const items = new Array<CachedItem | undefined>(keys.length);
+		let missing = keys.map((_, index) => index);
+
+		for (let i = 0; i < this.storages.length && missing.length > 0; i++) {
+			const storage = this.storages[i] as Storage;
+			const found = await getMany(
+				storage,
+				missing.map((index) => keys[index] as string),
+			);
+
+			const writeBack: Array<[string, CachedItem]> = [];
+			const stillMissing: number[] = [];
+			missing.forEach((index, position) => {
+				const item =
+					this.unclamp(found[position]) ??
+					(i === 0 ? this.queue.get(keys[index] as string) : undefined);
+				if (item === undefined) {
+					stillMissing.push(index);
+					return;
+				}
+				items[index] = item;
+				writeBack.push([keys[index] as string, item]);
+			});
+
+			if (i !== 0 && writeBack.length > 0) {
+				// Only set in higher priority storages (indices 0 to i-1)
+				await this.writeReported(
+					"writeBack",
+					this.storages.slice(0, i),
+					writeBack.map(([key]) => key),
+					(storage, index) =>
+						setMany(storage, this.applyPolicies(index, writeBack)),
+				);
+			}
+			missing = stillMissing;
+		}
+
+		return items;
+	}
+
+	async setMany(entries: Array<[key: string, content: CachedItem]>) {
+		await this.write(entries, (storage, index) =>
+			setMany(storage, this.applyPolicies(index, entries)),
+		);
+	}
+
+	async removeMany(keys: string[]): Promise<void> {
+		await this.settleFlush();
+		for (const key of keys) {
+			this.queue.delete(key);
+		}
+		await Promise.all(
+			this.storages.map((storage) => removeMany(storage, keys)),
+		);
+	}
+
+	/**
+	 * iterates over the keys of all storages, yielding each key once
+	 */
+	private async *mergedKeys(prefix?: string): AsyncIterable<string> {
+		const seen = new Set<string>();
+		for (const storage of this.storages) {
+			for await (const key of storage.keys?.(prefix) ?? []) {
+				if (seen.has(key)) continue;
+				seen.add(key);
+				yield key;
+			}
+		}
+	}
+
+	/**
+	 * writes all items queued in "write-behind" mode to the lower-priority storages
+	 */
+	async flush(): Promise<void> {
+		clearTimeout(this.flushTimer);
+		this.flushTimer = undefined;
+
+		await this.settleFlush();
+		if (this.queue.size === 0) return;
+
+		const entries = [...this.queue];
+		this.queue.clear();
+		this.flushing = this.writeBatches(entries).finally(() => {
+			this.flushing = undefined;
+		});
+		await this.flushing;
+	}
+
+	/**
+	 * drains the queue of the "write-behind" mode. Later writes are passed to all storages right away
+	 */
+	async close(): Promise<void> {
+		this.closed = true;
+		await this.flush();
+	}
+
+	/**
+	 * writes to the storages according to the write mode
+	 */
+	private async write(
+		entries: Array<[key: string, content: CachedItem]>,
+		write: (storage: Storage, index: number) => Promise<void>,
+	): Promise<void> {
+		const keys = entries.map(([key]) => key);
+		switch (this.writeMode) {
+			case "await-all": {
+				const results = await Promise.allSettled(this.storages.map(write));
+				const failure = results.find(
+					(result): result is PromiseRejectedResult =>
+						result.status === "rejected",
+				);
+				if (failure) throw failure.reason;
+				return;
+			}
+			case "await-primary": {
+				const [primaryStorage, ...moreStorages] = this.storages;
+				await write(primaryStorage, 0);
+				void this.writeReported("write", moreStorages, keys, write, 1);
+				return;
+			}
+			case "fire-and-forget":
+				void this.writeReported("write", this.storages, keys, write);
+				return;
+			case "write-behind": {
+				const [primaryStorage, ...moreStorages] = this.storages;
+				await write(primaryStorage, 0);
+				if (this.closed) {
+					await this.writeReported("write", moreStorages, keys, write, 1);
+					return;
+				}
+				await this.enqueue(entries);
+				return;
+			}
+		}
+	}
+
+	/**
+	 * waits for a running flush, so that removals are not undone by the batches it is writing
+	 */
+	private async settleFlush(): Promise<void> {
+		while (this.flushing) {
+			await this.flushing;
+		}
+	}
+
+	private async enqueue(
+		entries: Array<[key: string, content: CachedItem]>,
+	): Promise<void> {
+		for (const [key, content] of entries) {
+			while (
+				!this.queue.has(key) &&
+				this.queue.size >= this.writeBehind.maxQueueSize
+			) {
+				await this.flush();
+			}
+			this.queue.set(key, content);
+		}
+
+		this.flushTimer ??= setTimeout(() => {
+			void this.flush();
+		}, this.writeBehind.flushIntervalMs).unref();
+	}
+
+	/**
+	 * writes the entries to the lower-priority storages in batches, reporting failures
+	 */
+	private async writeBatches(
+		entries: Array<[key: string, content: CachedItem]>,
+	): Promise<void> {
+		const [, ...moreStorages] = this.storages;
+		for (let i = 0; i < entries.length; i += this.writeBehind.batchSize) {
+			const batch = entries.slice(i, i + this.writeBehind.batchSize);
+			await this.writeReported(
+				"write",
+				moreStorages,
+				batch.map(([key]) => key),
+				(storage, index) => setMany(storage, this.applyPolicies(index, batch)),
+				1,
+			);
+		}
+	}
+
+	/**
+	 * writes to the given storages, reporting failures instead of throwing them
+	 * @param offset - index of the first given storage within all storages
+	 */
+	private async writeReported(
+		operation: FallbackStorageError["operation"],
+		storages: Storage[],
+		keys: string[],
+		write: (storage: Storage, index: number) => Promise<void>,
+		offset = 0,
+	): Promise<void> {
+		await Promise.all(
+			storages.map(async (storage, i) => {
+				try {
+					await write(storage, offset + i);
+				} catch (error) {
+					debug(
+						`${operation} to fallback storage ${offset + i} failed: ${error}`,
+					);
+					try {
+						this.onError?.(error, {
+							operation,
+							storageIndex: offset + i,
+							keys,
+						});
+					} catch (hookError) {
+						debug(`onError of fallback storage failed: ${hookError}`);
+					}
+				}
+			}),
+		);
+	}
+
+	/**
+	 * clamps the lifetime of the item to the maxTtl of the storage at the given index, keeping the original ttl
+	 */
+	private applyPolicy(index: number, item: CachedItem): CachedItem {
+		const maxTtl = this.tiers[index]?.maxTtl;
+		if (maxTtl === undefined) return item;
+
+		const { ttl, staleTtl = null } = item.meta;
+		// lifetime relative to createdAt, so that items written back late are held for maxTtl as well
+		const limit = Date.now() - item.meta.createdAt + maxTtl;
+		if (ttl !== null && Math.max(ttl, staleTtl ?? 0) <= limit) return item;
+
+		return {
+			content: item.content,
+			meta: {
+				...item.meta,
+				ttl: Math.min(ttl ?? limit, limit),
+				staleTtl: staleTtl === null ? null : Math.min(staleTtl, limit),
+				clampedFrom: { ttl, staleTtl },
+			},
+		};
+	}
+
+	private applyPolicies(
+		index: number,
+		entries: Array<[key: string, content: CachedItem]>,
+	): Array<[key: string, content: CachedItem]> {
+		if (this.tiers[index]?.maxTtl === undefined) return entries;
+		return entries.map(([key, item]) => [key, this.applyPolicy(index, item)]);
+	}
+
+	/**
+	 * restores the original ttl of an item clamped by a tier policy, items past their clamped lifetime are misses
+	 */
+	private unclamp(item: CachedItem | undefined): CachedItem | undefined {
+		if (item?.meta.clampedFrom === undefined) return item;
+
+		const { clampedFrom, ...meta } = item.meta;
+		const lifetime = Math.max(meta.ttl ?? 0, meta.staleTtl ?? 0);
+		if (Date.now() > meta.createdAt + lifetime) return undefined;
+
+		return {
+			content: item.content,
+			meta: { ...meta, ...clampedFrom },
+		};
+	}
 }
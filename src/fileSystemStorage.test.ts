@@ -0,0 +1,185 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { CachedItem } from "./cacheContainer.ts";
+import { type Codec, jsonCodec, richCodec } from "./codec.ts";
+import { FileSystemStorage } from "./fileSystemStorage.ts";
+
+describe("FileSystemStorage", () => {
+	let directory: string;
+	let storage: FileSystemStorage;
+
+	const createItem = (content: unknown): CachedItem => ({
+		content,
+		meta: {
+			createdAt: Date.now(),
+			ttl: null,
+			staleTtl: null,
+		},
+	});
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), "node-ts-cache-"));
+		storage = new FileSystemStorage({ directory });
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	describe("setItem and getItem", () => {
+		it("should store and retrieve an item", async () => {
+			const item = createItem({ name: "test", values: [1, 2, 3] });
+
+			await storage.setItem("test-key", item);
+
+			expect(await storage.getItem("test-key")).toEqual(item);
+		});
+
+		it("should return undefined for non-existent key", async () => {
+			expect(await storage.getItem("missing")).toBeUndefined();
+		});
+
+		it("should overwrite existing item with same key", async () => {
+			await storage.setItem("test-key", createItem("first"));
+			await storage.setItem("test-key", createItem("second"));
+
+			expect((await storage.getItem("test-key"))?.content).toBe("second");
+		});
+
+		it("should handle special characters in keys", async () => {
+			const key = "../../etc/passwd:with/slashes\\and spaces";
+
+			await storage.setItem(key, createItem("content"));
+
+			expect((await storage.getItem(key))?.content).toBe("content");
+			expect(await readdir(directory)).toHaveLength(1);
+		});
+
+		it("should create the directory on first write", async () => {
+			const nested = new FileSystemStorage({
+				directory: join(directory, "nested", "cache"),
+			});
+
+			await nested.setItem("test-key", createItem("content"));
+
+			expect((await nested.getItem("test-key"))?.content).toBe("content");
+		});
+
+		it("should persist items across instances", async () => {
+			await storage.setItem("test-key", createItem("persisted"));
+
+			const reopened = new FileSystemStorage({ directory });
+
+			expect((await reopened.getItem("test-key"))?.content).toBe("persisted");
+		});
+
+		it("should not leave temporary files behind", async () => {
+			await Promise.all(
+				Array.from({ length: 10 }, (_, i) =>
+					storage.setItem("test-key", createItem(i)),
+				),
+			);
+
+			const files = await readdir(directory);
+			expect(files).toHaveLength(1);
+			expect(files[0]).toMatch(/\.cache$/);
+		});
+	});
+
+	describe("corrupted files", () => {
+		it("should treat corrupted files as misses", async () => {
+			await storage.setItem("test-key", createItem("content"));
+			const [file] = await readdir(directory);
+
+			await writeFile(join(directory, file as string), '{"key":"test-k');
+
+			expect(await storage.getItem("test-key")).toBeUndefined();
+		});
+
+		it("should treat files with unexpected content as misses", async () => {
+			await storage.setItem("test-key", createItem("content"));
+			const [file] = await readdir(directory);
+
+			await writeFile(join(directory, file as string), "null");
+
+			expect(await storage.getItem("test-key")).toBeUndefined();
+		});
+	});
+
+	describe("removeItem", () => {
+		it("should remove an item", async () => {
+			await storage.setItem("test-key", createItem("content"));
+
+			await storage.removeItem("test-key");
+
+			expect(await storage.getItem("test-key")).toBeUndefined();
+		});
+
+		it("should not throw when removing non-existent key", async () => {
+			await expect(storage.removeItem("missing")).resolves.toBeUndefined();
+		});
+	});
+
+	describe("clear", () => {
+		it("should remove all cache files but leave other files alone", async () => {
+			await storage.setItem("key1", createItem("content1"));
+			await storage.setItem("key2", createItem("content2"));
+			await writeFile(join(directory, "unrelated.txt"), "keep me");
+
+			await storage.clear();
+
+			expect(await storage.getItem("key1")).toBeUndefined();
+			expect(await storage.getItem("key2")).toBeUndefined();
+			expect(await readdir(directory)).toEqual(["unrelated.txt"]);
+		});
+
+		it("should not throw when the directory does not exist", async () => {
+			const missing = new FileSystemStorage({
+				directory: join(directory, "missing"),
+			});
+
+			await expect(missing.clear()).resolves.toBeUndefined();
+		});
+	});
+
+	describe("codec", () => {
+		it("should preserve rich types with the rich codec", async () => {
+			const richStorage = new FileSystemStorage({
+				directory,
+				codec: richCodec,
+			});
+			const item = createItem({
+				at: new Date(0),
+				ids: new Set([1n, 2n]),
+				lookup: new Map([["a", undefined]]),
+			});
+
+			await richStorage.setItem("key", item);
+
+			expect(await richStorage.getItem("key")).toEqual(item);
+		});
+
+		it("should store the output of binary codecs", async () => {
+			const binaryCodec: Codec = {
+				format: "binary",
+				encode: (item) =>
+					Buffer.from(jsonCodec.encode(item) as string).reverse(),
+				decode: (data) =>
+					jsonCodec.decode(Buffer.from(data).reverse().toString() as never),
+			};
+
+			const binaryStorage = new FileSystemStorage({
+				directory,
+				codec: binaryCodec,
+			});
+			const item = createItem("content");
+
+			await binaryStorage.setItem("key", item);
+
+			expect(await binaryStorage.getItem("key")).toEqual(item);
+			expect(await storage.getItem("key")).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,128 @@
+import { randomUUID } from "node:crypto";
+import {
+	mkdir,
+	readdir,
+	readFile,
+	rename,
+	rm,
+	writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import type { CachedItem } from "./cacheContainer.ts";
+import { type Codec, jsonCodec } from "./codec.ts";
+import { debug } from "./debug.ts";
+import hash from "./hash.ts";
+import type { Storage } from "./storage.ts";
+
+const FILE_EXTENSION = ".cache";
+const TEMP_FILE_EXTENSION = ".tmp";
+const NEWLINE = 0x0a;
+
+/**
+ * Persistent storage that keeps every cached item in its own file below a directory.
+ *
+ * Keys are hashed into file names, writes go to a temporary file that is renamed into place
+ * so readers never observe partially written items. Unreadable or corrupted files are treated as misses.
+ * Each file holds the key as a JSON line followed by the item serialized with the codec (JSON by default).
+ */
+export class FileSystemStorage implements Storage {
+	private directory: string;
+	private codec: Codec;
+
+	constructor({
+		directory,
+		codec = jsonCodec,
+	}: {
+		directory: string;
+		codec?: Codec;
+	}) {
+		this.directory = directory;
+		this.codec = codec;
+	}
+
+	async clear(): Promise<void> {
+		let entries: string[];
+		try {
+			entries = await readdir(this.directory);
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+			throw error;
+		}
+
+		await Promise.all(
+			entries
+				.filter(
+					(entry) =>
+						entry.endsWith(FILE_EXTENSION) ||
+						entry.endsWith(TEMP_FILE_EXTENSION),
+				)
+				.map((entry) => rm(join(this.directory, entry), { force: true })),
+		);
+	}
+
+	async getItem(key: string): Promise<CachedItem | undefined> {
+		let raw: Buffer;
+		try {
+			raw = await readFile(this.filePath(key));
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+				debug(`Could not read cache file for ${key}: ${error}`);
+			}
+			return undefined;
+		}
+
+		try {
+			const separator = raw.indexOf(NEWLINE);
+			if (
+				separator === -1 ||
+				JSON.parse(raw.subarray(0, separator).toString("utf8")) !== key
+			) {
+				debug(`Ignoring invalid cache file for ${key}`);
+				return undefined;
+			}
+
+			const data = raw.subarray(separator + 1);
+			const item =
+				this.codec.format === "text"
+					? this.codec.decode(data.toString("utf8"))
+					: this.codec.decode(data);
+			if (typeof item?.meta !== "object") {
+				debug(`Ignoring invalid cache file for ${key}`);
+				return undefined;
+			}
+			return item;
+		} catch {
+			debug(`Ignoring corrupted cache file for ${key}`);
+			return undefined;
+		}
+	}
+
+	async setItem(key: string, content: CachedItem): Promise<void> {
+		await mkdir(this.directory, { recursive: true });
+
+		const filePath = this.filePath(key);
+		const tempPath = `${filePath}.${randomUUID()}${TEMP_FILE_EXTENSION}`;
+		const data = [
+			Buffer.from(`${JSON.stringify(key)}\n`, "utf8"),
+			this.codec.format === "text"
+				? Buffer.from(this.codec.encode(content), "utf8")
+				: this.codec.encode(content),
+		];
+
+		try {
+			await writeFile(tempPath, data);
+			await rename(tempPath, filePath);
+		} catch (error) {
+			await rm(tempPath, { force: true });
+			throw error;
+		}
+	}
+
+	async removeItem(key: string): Promise<void> {
+		await rm(this.filePath(key), { force: true });
+	}
+
+	private filePath(key: string): string {
+		return join(this.directory, `${hash(key)}${FILE_EXTENSION}`);
+	}
+}
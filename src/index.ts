@@ -1,5 +1,18 @@
 export * from "./cacheContainer.ts";
+export * from "./cacheDecorator.ts";
+export * from "./cacheEvents.ts";
+export * from "./cacheStats.ts";
+export * from "./codec.ts";
+export * from "./compressedStorage.ts";
+export * from "./encryptedStorage.ts";
 export * from "./fallbackStorage.ts";
+export * from "./fileSystemStorage.ts";
 export * from "./lruStorage.ts";
+export * from "./namespacedStorage.ts";
+export * from "./random.ts";
+export * from "./redisStorage.ts";
+export * from "./resilientStorage.ts";
+export * from "./sqliteStorage.ts";
 export * from "./storage.ts";
+export * from "./withBatchCache.ts";
 export * from "./withCache.ts";
@@ -1,10 +1,23 @@
-import { beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { CachedItem } from "./cacheContainer.ts";
 import { LRUStorage } from "./lruStorage.ts";
 
 describe("LRUStorage", () => {
 	let storage: LRUStorage;
 
+	const createItem = (
+		content: unknown,
+		meta: Partial<CachedItem["meta"]> = {},
+	): CachedItem => ({
+		content,
+		meta: {
+			createdAt: Date.now(),
+			ttl: null,
+			staleTtl: null,
+			...meta,
+		},
+	});
+
 	beforeEach(() => {
 		storage = new LRUStorage();
 	});
@@ -698,4 +711,286 @@ describe("LRUStorage", () => {
 			},
 		);
 	});
+
+	describe("byte size limits", () => {
+		// every item counts as many bytes as its content string is long
+		const sizeOf = (item: CachedItem) => String(item.content).length;
+
+		it("should evict least recently used entries until the total fits", async () => {
+			const sizedStorage = new LRUStorage({ maxBytes: 10, sizeOf });
+
+			await sizedStorage.setItem("key-1", createItem("aaaa"));
+			await sizedStorage.setItem("key-2", createItem("bbbb"));
+			await sizedStorage.getItem("key-1");
+			await sizedStorage.setItem("key-3", createItem("cccccc"));
+
+			expect(await sizedStorage.getItem("key-2")).toBeUndefined();
+			expect(await sizedStorage.getItem("key-1")).toBeDefined();
+			expect(await sizedStorage.getItem("key-3")).toBeDefined();
+			expect(sizedStorage.byteSize).toBe(10);
+		});
+
+		it("should evict multiple entries for a single large item", async () => {
+			const sizedStorage = new LRUStorage({ maxBytes: 10, sizeOf });
+
+			await sizedStorage.setItem("key-1", createItem("aaa"));
+			await sizedStorage.setItem("key-2", createItem("bbb"));
+			await sizedStorage.setItem("key-3", createItem("ccc"));
+			await sizedStorage.setItem("key-4", createItem("dddddddd"));
+
+			expect(await sizedStorage.getItem("key-1")).toBeUndefined();
+			expect(await sizedStorage.getItem("key-2")).toBeUndefined();
+			expect(await sizedStorage.getItem("key-3")).toBeUndefined();
+			expect(await sizedStorage.getItem("key-4")).toBeDefined();
+			expect(sizedStorage.byteSize).toBe(8);
+		});
+
+		it("should account for overwritten and removed entries", async () => {
+			const sizedStorage = new LRUStorage({ maxBytes: 10, sizeOf });
+
+			await sizedStorage.setItem("key-1", createItem("aaaaaa"));
+			await sizedStorage.setItem("key-1", createItem("aa"));
+			await sizedStorage.setItem("key-2", createItem("bbbb"));
+			expect(sizedStorage.byteSize).toBe(6);
+
+			await sizedStorage.removeItem("key-2");
+			expect(sizedStorage.byteSize).toBe(2);
+
+			await sizedStorage.clear();
+			expect(sizedStorage.byteSize).toBe(0);
+		});
+
+		it("should keep sizes in sync with entries evicted by max", async () => {
+			const sizedStorage = new LRUStorage({ max: 2, maxBytes: 100, sizeOf });
+
+			await sizedStorage.setItem("key-1", createItem("aaaa"));
+			await sizedStorage.setItem("key-2", createItem("bbbb"));
+			await sizedStorage.setItem("key-3", createItem("cccc"));
+
+			expect(await sizedStorage.getItem("key-1")).toBeUndefined();
+			expect(sizedStorage.byteSize).toBe(8);
+		});
+
+		it("should bypass items larger than maxItemBytes by default", async () => {
+			const sizedStorage = new LRUStorage({
+				maxBytes: 100,
+				maxItemBytes: 5,
+				sizeOf,
+			});
+
+			await sizedStorage.setItem("small", createItem("aaaa"));
+			await sizedStorage.setItem("large", createItem("bbbbbb"));
+
+			expect(await sizedStorage.getItem("small")).toBeDefined();
+			expect(await sizedStorage.getItem("large")).toBeUndefined();
+			expect(sizedStorage.byteSize).toBe(4);
+		});
+
+		it("should drop the previous value when an oversized item is bypassed", async () => {
+			const sizedStorage = new LRUStorage({ maxBytes: 5, sizeOf });
+
+			await sizedStorage.setItem("key", createItem("aaaa"));
+			await sizedStorage.setItem("key", createItem("bbbbbb"));
+
+			expect(await sizedStorage.getItem("key")).toBeUndefined();
+			expect(sizedStorage.byteSize).toBe(0);
+		});
+
+		it("should reject items larger than maxItemBytes when configured", async () => {
+			const sizedStorage = new LRUStorage({
+				maxBytes: 100,
+				maxItemBytes: 5,
+				oversizedItems: "reject",
+				sizeOf,
+			});
+
+			await expect(
+				sizedStorage.setItem("large", createItem("bbbbbb")),
+			).rejects.toThrow("exceeds the limit of 5 bytes");
+		});
+
+		it("should enforce maxItemBytes without maxBytes", async () => {
+			const sizedStorage = new LRUStorage({
+				maxItemBytes: 10,
+				oversizedItems: "reject",
+			});
+
+			await expect(
+				sizedStorage.setItem("large", createItem("a".repeat(1000))),
+			).rejects.toThrow("exceeds the limit of 10 bytes");
+			expect(await sizedStorage.getItem("large")).toBeUndefined();
+		});
+
+		it("should estimate sizes from the JSON representation by default", async () => {
+			const sizedStorage = new LRUStorage({ maxBytes: 1000 });
+			const item = createItem("ä");
+
+			await sizedStorage.setItem("key", item);
+
+			expect(sizedStorage.byteSize).toBe(
+				Buffer.byteLength(JSON.stringify(item)),
+			);
+		});
+	});
+
+	describe("TTL-aware eviction", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should evict expired entries before least recently used ones", async () => {
+			const smallStorage = new LRUStorage({ max: 2 });
+
+			await smallStorage.setItem("live", createItem("live"));
+			await smallStorage.setItem("dead", createItem("dead", { ttl: 50 }));
+			await smallStorage.getItem("dead");
+			vi.advanceTimersByTime(100);
+
+			await smallStorage.setItem("new", createItem("new"));
+
+			expect(await smallStorage.getItem("dead")).toBeUndefined();
+			expect(await smallStorage.getItem("live")).toBeDefined();
+			expect(await smallStorage.getItem("new")).toBeDefined();
+		});
+
+		it("should keep stale entries until staleTtl has passed", async () => {
+			const smallStorage = new LRUStorage({ max: 2 });
+
+			await smallStorage.setItem(
+				"stale",
+				createItem("stale", { ttl: 50, staleTtl: 200 }),
+			);
+			await smallStorage.setItem("live", createItem("live"));
+			vi.advanceTimersByTime(100);
+
+			await smallStorage.setItem("new", createItem("new"));
+
+			// nothing is expired, so plain LRU applies
+			expect(await smallStorage.getItem("stale")).toBeUndefined();
+			expect(await smallStorage.getItem("live")).toBeDefined();
+		});
+
+		it("should evict expired entries first when over maxBytes", async () => {
+			const sizedStorage = new LRUStorage({
+				maxBytes: 10,
+				sizeOf: (item) => String(item.content).length,
+			});
+
+			await sizedStorage.setItem("live", createItem("aaaa"));
+			await sizedStorage.setItem("dead", createItem("bbbb", { ttl: 50 }));
+			vi.advanceTimersByTime(100);
+
+			await sizedStorage.setItem("new", createItem("cccc"));
+
+			expect(await sizedStorage.getItem("dead")).toBeUndefined();
+			expect(await sizedStorage.getItem("live")).toBeDefined();
+			expect(await sizedStorage.getItem("new")).toBeDefined();
+			expect(sizedStorage.byteSize).toBe(8);
+		});
+
+		it("should remove expired entries on purgeExpired", async () => {
+			await storage.setItem("forever", createItem("forever"));
+			await storage.setItem("short", createItem("short", { ttl: 50 }));
+			await storage.setItem(
+				"stale",
+				createItem("stale", { ttl: 50, staleTtl: 200 }),
+			);
+			vi.advanceTimersByTime(100);
+
+			expect(await storage.purgeExpired()).toBe(1);
+			expect(await storage.getItem("short")).toBeUndefined();
+			expect(await storage.getItem("stale")).toBeDefined();
+			expect(await storage.getItem("forever")).toBeDefined();
+
+			vi.advanceTimersByTime(200);
+			expect(await storage.purgeExpired()).toBe(1);
+			expect(await storage.getItem("stale")).toBeUndefined();
+		});
+
+		it("should sweep expired entries in the background", async () => {
+			const sweepingStorage = new LRUStorage({ sweepIntervalMs: 100 });
+
+			await sweepingStorage.setItem("short", createItem("short", { ttl: 50 }));
+			await sweepingStorage.setItem("long", createItem("long", { ttl: 500 }));
+
+			vi.advanceTimersByTime(100);
+			expect(await sweepingStorage.getItem("short")).toBeUndefined();
+			expect(await sweepingStorage.getItem("long")).toBeDefined();
+
+			await sweepingStorage.close();
+			vi.advanceTimersByTime(1000);
+			expect(await sweepingStorage.getItem("long")).toBeDefined();
+		});
+	});
+
+	describe("keys", () => {
+		it("should iterate over all keys", async () => {
+			await storage.setItem("a:1", createItem(1));
+			await storage.setItem("a:2", createItem(2));
+			await storage.setItem("b:1", createItem(3));
+
+			const keys: string[] = [];
+			for await (const key of storage.keys()) keys.push(key);
+
+			expect(keys.sort()).toEqual(["a:1", "a:2", "b:1"]);
+		});
+
+		it("should only yield keys with the given prefix", async () => {
+			await storage.setItem("a:1", createItem(1));
+			await storage.setItem("b:1", createItem(2));
+
+			const keys: string[] = [];
+			for await (const key of storage.keys("a:")) keys.push(key);
+
+			expect(keys).toEqual(["a:1"]);
+		});
+
+		it("should allow removing items while iterating", async () => {
+			await storage.setItem("a:1", createItem(1));
+			await storage.setItem("a:2", createItem(2));
+
+			for await (const key of storage.keys()) await storage.removeItem(key);
+
+			expect(await storage.getItem("a:1")).toBeUndefined();
+			expect(await storage.getItem("a:2")).toBeUndefined();
+		});
+	});
+
+	describe("batch operations", () => {
+		it("should get, set and remove multiple items", async () => {
+			await storage.setMany([
+				["key-1", createItem(1)],
+				["key-2", createItem(2)],
+			]);
+
+			const items = await storage.getMany(["key-2", "missing", "key-1"]);
+			expect(items.map((item) => item?.content)).toEqual([2, undefined, 1]);
+
+			await storage.removeMany(["key-1", "key-2"]);
+			expect(await storage.getMany(["key-1", "key-2"])).toEqual([
+				undefined,
+				undefined,
+			]);
+		});
+
+		it("should keep byte sizes in sync", async () => {
+			const sizedStorage = new LRUStorage({
+				maxBytes: 100,
+				sizeOf: (item) => String(item.content).length,
+			});
+
+			await sizedStorage.setMany([
+				["key-1", createItem("aaaa")],
+				["key-2", createItem("bbbb")],
+			]);
+			expect(sizedStorage.byteSize).toBe(8);
+
+			await sizedStorage.removeMany(["key-1"]);
+			expect(sizedStorage.byteSize).toBe(4);
+		});
+	});
 });
@@ -1,16 +1,86 @@
 import { LRUMapWithDelete } from "mnemonist";
 import type { CachedItem } from "./cacheContainer.ts";
+import { debug } from "./debug.ts";
 import type { Storage } from "./storage.ts";
 
+export type LRUStorageOptions = {
+	/**
+	 * Maximum number of entries
+	 * @default 10_000
+	 */
+	max?: number;
+	/** Maximum total size of all entries in bytes, as estimated by sizeOf - defaults to no limit */
+	maxBytes?: number;
+	/** Maximum size of a single entry in bytes - defaults to maxBytes */
+	maxItemBytes?: number;
+	/**
+	 * What to do with an entry larger than maxItemBytes:
+	 * "bypass" silently skips storing it, "reject" throws from setItem
+	 * @default "bypass"
+	 */
+	oversizedItems?: "bypass" | "reject";
+	/** Estimates the size of an entry in bytes - defaults to the byte length of its JSON representation */
+	sizeOf?: (item: CachedItem) => number;
+	/**
+	 * Interval in milliseconds to remove entries that are neither fresh nor stale anymore in the background.
+	 * The timer does not keep the process alive - defaults to no background sweeping.
+	 */
+	sweepIntervalMs?: number;
+};
+
+const defaultSizeOf = (item: CachedItem) =>
+	Buffer.byteLength(JSON.stringify(item) ?? "");
+
+const expiresAt = ({ meta }: CachedItem) =>
+	meta.ttl === null
+		? Number.POSITIVE_INFINITY
+		: meta.createdAt + Math.max(meta.ttl, meta.staleTtl ?? 0);
+
 export class LRUStorage implements Storage {
 	private cache: LRUMapWithDelete<string, CachedItem>;
+	private sizes = new Map<string, number>();
+	private totalBytes = 0;
+	private maxBytes: number;
+	private maxItemBytes: number;
+	private oversizedItems: "bypass" | "reject";
+	private sizeOf: (item: CachedItem) => number;
+	private sweepTimer: ReturnType<typeof setInterval> | undefined;
+	/** Lower bound for the earliest expiry of all entries, so scans can be skipped while nothing expired */
+	private nextExpiryAt = Number.POSITIVE_INFINITY;
 
-	constructor({ max = 10_000 }: { max?: number } = {}) {
+	constructor({
+		max = 10_000,
+		maxBytes = Number.POSITIVE_INFINITY,
+		maxItemBytes = maxBytes,
+		oversizedItems = "bypass",
+		sizeOf = defaultSizeOf,
+		sweepIntervalMs,
+	}: LRUStorageOptions = {}) {
 		this.cache = new LRUMapWithDelete<string, CachedItem>(max);
+		this.maxBytes = maxBytes;
+		this.maxItemBytes = Math.min(maxItemBytes, maxBytes);
+		this.oversizedItems = oversizedItems;
+		this.sizeOf = sizeOf;
+
+		if (sweepIntervalMs) {
+			this.sweepTimer = setInterval(() => {
+				void this.purgeExpired();
+			}, sweepIntervalMs).unref();
+		}
+	}
+
+	/**
+	 * the estimated total size of all entries in bytes (only tracked when maxBytes or maxItemBytes is set)
+	 */
+	get byteSize(): number {
+		return this.totalBytes;
 	}
 
 	async clear(): Promise<void> {
 		this.cache.clear();
+		this.sizes.clear();
+		this.totalBytes = 0;
+		this.nextExpiryAt = Number.POSITIVE_INFINITY;
 	}
 
 	async getItem(key: string) {
@@ -19,10 +89,152 @@ export class LRUStorage implements Storage {
 	}
 
 	async setItem(key: string, content: CachedItem) {
-		this.cache.set(key, content);
+		// make room by dropping dead entries before the LRU policy evicts live ones
+		if (!this.cache.has(key) && this.cache.size >= this.cache.capacity) {
+			this.removeExpired();
+		}
+		this.nextExpiryAt = Math.min(this.nextExpiryAt, expiresAt(content));
+
+		if (!this.isByteLimited()) {
+			this.cache.set(key, content);
+			return;
+		}
+
+		const size = this.sizeOf(content);
+		if (size > this.maxItemBytes) {
+			if (this.oversizedItems === "reject") {
+				throw new Error(
+					`Item ${key} (${size} bytes) exceeds the limit of ${this.maxItemBytes} bytes`,
+				);
+			}
+			debug(
+				`Not storing ${key}: ${size} bytes exceed the limit of ${this.maxItemBytes} bytes`,
+			);
+			this.untrack(key);
+			this.cache.delete(key);
+			return;
+		}
+
+		this.untrack(key);
+		const popped = this.cache.setpop(key, content);
+		if (popped?.evicted) {
+			this.untrack(popped.key);
+		} else if (this.sizes.has("") && !this.cache.has("")) {
+			// mnemonist does not report the eviction of an empty string key
+			this.untrack("");
+		}
+		this.sizes.set(key, size);
+		this.totalBytes += size;
+
+		this.evictToFit();
 	}
 
 	async removeItem(key: string) {
+		this.untrack(key);
 		this.cache.delete(key);
 	}
+
+	async getMany(keys: string[]) {
+		return keys.map((key) => this.cache.get(key));
+	}
+
+	async setMany(entries: Array<[key: string, content: CachedItem]>) {
+		for (const [key, content] of entries) {
+			await this.setItem(key, content);
+		}
+	}
+
+	async removeMany(keys: string[]) {
+		for (const key of keys) {
+			this.untrack(key);
+			this.cache.delete(key);
+		}
+	}
+
+	async *keys(prefix = "") {
+		// copied first, so removing items while iterating is safe
+		for (const key of [...this.cache.keys()]) {
+			if (key.startsWith(prefix)) yield key;
+		}
+	}
+
+	/**
+	 * removes all entries that are neither fresh nor stale anymore
+	 * @returns the number of removed entries
+	 */
+	async purgeExpired(): Promise<number> {
+		return this.removeExpired();
+	}
+
+	/**
+	 * stops the background sweeping
+	 */
+	async close(): Promise<void> {
+		clearInterval(this.sweepTimer);
+		this.sweepTimer = undefined;
+	}
+
+	private removeExpired(): number {
+		const now = Date.now();
+		if (now <= this.nextExpiryAt) return 0;
+
+		const expiredKeys: string[] = [];
+		this.nextExpiryAt = Number.POSITIVE_INFINITY;
+		for (const [key, item] of this.cache.entries()) {
+			const itemExpiresAt = expiresAt(item);
+			if (now > itemExpiresAt) {
+				expiredKeys.push(key);
+			} else {
+				this.nextExpiryAt = Math.min(this.nextExpiryAt, itemExpiresAt);
+			}
+		}
+
+		for (const key of expiredKeys) {
+			this.untrack(key);
+			this.cache.delete(key);
+		}
+		if (expiredKeys.length > 0) {
+			debug(`Removed ${expiredKeys.length} expired entries`);
+		}
+		return expiredKeys.length;
+	}
+
+	private isByteLimited() {
+		return Number.isFinite(this.maxItemBytes);
+	}
+
+	private untrack(key: string) {
+		this.totalBytes -= this.sizes.get(key) ?? 0;
+		this.sizes.delete(key);
+	}
+
+	/**
+	 * Evicts expired entries, then least recently used entries until the total size fits into maxBytes.
+	 * Keys are iterated from most to least recently used, so everything after the budget is used up goes.
+	 */
+	private evictToFit() {
+		if (this.totalBytes <= this.maxBytes) return;
+
+		this.removeExpired();
+		if (this.totalBytes <= this.maxBytes) return;
+
+		let retainedBytes = 0;
+		const evictedKeys: string[] = [];
+		for (const key of this.cache.keys()) {
+			const size = this.sizes.get(key) ?? 0;
+			if (evictedKeys.length === 0 && retainedBytes + size <= this.maxBytes) {
+				retainedBytes += size;
+			} else {
+				evictedKeys.push(key);
+			}
+		}
+
+		for (const key of evictedKeys) {
+			this.untrack(key);
+			this.cache.delete(key);
+		}
+		debug(
+			`Evicted ${evictedKeys.length} entries to fit into ${this.maxBytes} bytes`,
+		);
+	}
 }
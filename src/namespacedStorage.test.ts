@@ -0,0 +1,292 @@
+import { randomBytes } from "node:crypto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { CacheContainer, type CachedItem } from "./cacheContainer.ts";
+import { CompressedStorage } from "./compressedStorage.ts";
+import { EncryptedStorage } from "./encryptedStorage.ts";
+import { FallbackStorage } from "./fallbackStorage.ts";
+import { LRUStorage } from "./lruStorage.ts";
+import { NamespacedStorage } from "./namespacedStorage.ts";
+import { ResilientStorage } from "./resilientStorage.ts";
+import type { Storage } from "./storage.ts";
+
+describe("NamespacedStorage", () => {
+	const createItem = (content: unknown): CachedItem => ({
+		content,
+		meta: {
+			createdAt: Date.now(),
+			ttl: null,
+			staleTtl: null,
+		},
+	});
+
+	/** a storage without key enumeration */
+	const createPlainStorage = () => {
+		const items = new Map<string, CachedItem>();
+		const storage: Storage = {
+			getItem: async (key) => items.get(key),
+			setItem: async (key, content) => {
+				items.set(key, content);
+			},
+			removeItem: async (key) => {
+				items.delete(key);
+			},
+			clear: async () => items.clear(),
+		};
+		return { items, storage };
+	};
+
+	describe("with key enumeration", () => {
+		let shared: LRUStorage;
+		let billing: NamespacedStorage;
+		let shipping: NamespacedStorage;
+
+		beforeEach(() => {
+			shared = new LRUStorage({ max: 100 });
+			billing = new NamespacedStorage(shared, { namespace: "billing" });
+			shipping = new NamespacedStorage(shared, { namespace: "shipping" });
+		});
+
+		it("should prefix keys with the namespace", async () => {
+			const item = createItem("invoice");
+
+			await billing.setItem("key", item);
+
+			expect(await shared.getItem("node-ts-cache:ns:billing:key")).toEqual(
+				item,
+			);
+			expect(await billing.getItem("key")).toEqual(item);
+			expect(await shipping.getItem("key")).toBeUndefined();
+		});
+
+		it("should only clear its own namespace", async () => {
+			await billing.setItem("key", createItem("invoice"));
+			await shipping.setItem("key", createItem("parcel"));
+			await shared.setItem("billing-report", createItem("report"));
+
+			await billing.clear();
+
+			expect(await billing.getItem("key")).toBeUndefined();
+			expect((await shipping.getItem("key"))?.content).toBe("parcel");
+			expect((await shared.getItem("billing-report"))?.content).toBe("report");
+		});
+
+		it("should clear nested namespaces with their parent", async () => {
+			const invoices = new NamespacedStorage(billing, {
+				namespace: "invoices",
+			});
+			await invoices.setItem("key", createItem("invoice"));
+
+			expect(
+				await shared.getItem(
+					"node-ts-cache:ns:billing:node-ts-cache:ns:invoices:key",
+				),
+			).toBeDefined();
+			await billing.clear();
+			expect(await invoices.getItem("key")).toBeUndefined();
+		});
+
+		it("should remove items", async () => {
+			await billing.setItem("key", createItem("invoice"));
+			await shipping.setItem("key", createItem("parcel"));
+
+			await billing.removeItem("key");
+
+			expect(await billing.getItem("key")).toBeUndefined();
+			expect(await shipping.getItem("key")).toBeDefined();
+		});
+
+		it("should yield its own keys without the namespace", async () => {
+			await billing.setItem("invoice:1", createItem(1));
+			await billing.setItem("invoice:2", createItem(2));
+			await billing.setItem("customer:1", createItem(3));
+			await shipping.setItem("invoice:3", createItem(4));
+
+			const keys: string[] = [];
+			for await (const key of billing.keys?.("invoice:") ?? []) keys.push(key);
+
+			expect(keys.sort()).toEqual(["invoice:1", "invoice:2"]);
+		});
+
+		it("should prefix keys in batch operations", async () => {
+			await billing.setMany([
+				["key1", createItem(1)],
+				["key2", createItem(2)],
+			]);
+
+			expect(
+				await shared.getItem("node-ts-cache:ns:billing:key1"),
+			).toBeDefined();
+			expect(
+				(await billing.getMany(["key2", "key1"])).map((item) => item?.content),
+			).toEqual([2, 1]);
+
+			await billing.removeMany(["key1", "key2"]);
+			expect(await billing.getMany(["key1", "key2"])).toEqual([
+				undefined,
+				undefined,
+			]);
+		});
+
+		it("should not clear other namespaces or plain keys starting with the namespace", async () => {
+			const billingEu = new NamespacedStorage(shared, {
+				namespace: "billingEu",
+			});
+			await billingEu.setItem("key", createItem("invoice"));
+			await shared.setItem("billing:key", createItem("plain"));
+
+			await billing.clear();
+
+			expect((await billingEu.getItem("key"))?.content).toBe("invoice");
+			expect((await shared.getItem("billing:key"))?.content).toBe("plain");
+		});
+
+		it("should reject namespaces containing the separator", () => {
+			expect(
+				() => new NamespacedStorage(shared, { namespace: "billing:eu" }),
+			).toThrow('must not contain ":"');
+		});
+
+		it("should reject empty namespaces", () => {
+			expect(() => new NamespacedStorage(shared, { namespace: "" })).toThrow(
+				"Namespace must not be empty",
+			);
+		});
+	});
+
+	describe("without key enumeration", () => {
+		it("should keep namespaces apart", async () => {
+			const { storage } = createPlainStorage();
+			const billing = new NamespacedStorage(storage, { namespace: "billing" });
+			const shipping = new NamespacedStorage(storage, {
+				namespace: "shipping",
+			});
+
+			await billing.setItem("key", createItem("invoice"));
+
+			expect((await billing.getItem("key"))?.content).toBe("invoice");
+			expect(await shipping.getItem("key")).toBeUndefined();
+		});
+
+		it("should clear by starting a new generation", async () => {
+			const { items, storage } = createPlainStorage();
+			const billing = new NamespacedStorage(storage, { namespace: "billing" });
+			const shipping = new NamespacedStorage(storage, {
+				namespace: "shipping",
+			});
+			await billing.setItem("key", createItem("invoice"));
+			await shipping.setItem("key", createItem("parcel"));
+
+			await billing.clear();
+
+			expect(await billing.getItem("key")).toBeUndefined();
+			expect((await shipping.getItem("key"))?.content).toBe("parcel");
+
+			await billing.setItem("key", createItem("new invoice"));
+			expect((await billing.getItem("key"))?.content).toBe("new invoice");
+			// the previous generation is left to expire
+			expect(
+				[...items.keys()].filter((key) =>
+					key.startsWith("node-ts-cache:ns:billing:"),
+				),
+			).toHaveLength(2);
+		});
+
+		it("should share the generation between instances", async () => {
+			const { storage } = createPlainStorage();
+			const first = new NamespacedStorage(storage, { namespace: "billing" });
+			const second = new NamespacedStorage(storage, { namespace: "billing" });
+
+			await first.setItem("key", createItem("invoice"));
+			expect((await second.getItem("key"))?.content).toBe("invoice");
+
+			await second.clear();
+			expect(await first.getItem("key")).toBeUndefined();
+		});
+
+		it("should start a single generation for concurrent writes", async () => {
+			const { storage } = createPlainStorage();
+			const billing = new NamespacedStorage(storage, { namespace: "billing" });
+
+			await Promise.all([
+				billing.setItem("key1", createItem(1)),
+				billing.setItem("key2", createItem(2)),
+			]);
+
+			expect(
+				(await billing.getMany(["key1", "key2"])).map((item) => item?.content),
+			).toEqual([1, 2]);
+		});
+
+		it("should not support key enumeration", () => {
+			const { storage } = createPlainStorage();
+			const billing = new NamespacedStorage(storage, { namespace: "billing" });
+
+			expect(billing.keys).toBeUndefined();
+		});
+
+		it("should start a new generation behind wrappers of the storage", async () => {
+			const { storage } = createPlainStorage();
+			const wrappers: Storage[] = [
+				new FallbackStorage([storage]),
+				new CompressedStorage(storage),
+				new EncryptedStorage(storage, {
+					keys: { current: randomBytes(32) },
+					currentKeyId: "current",
+				}),
+				new ResilientStorage(storage),
+			];
+
+			for (const wrapper of wrappers) {
+				const billing = new NamespacedStorage(wrapper, {
+					namespace: "billing",
+				});
+				await billing.setItem("key", createItem("invoice"));
+
+				await billing.clear();
+
+				expect(await billing.getItem("key")).toBeUndefined();
+			}
+		});
+
+		it("should start a new generation if a fallback tier can not enumerate keys", async () => {
+			const { storage } = createPlainStorage();
+			const memory = new LRUStorage({ max: 100 });
+			const billing = new NamespacedStorage(
+				new FallbackStorage([memory, storage]),
+				{ namespace: "billing" },
+			);
+			await billing.setItem("key", createItem("invoice"));
+			// the item is now only held by the tier that can not enumerate it
+			await memory.clear();
+
+			await billing.clear();
+
+			expect(await billing.getItem("key")).toBeUndefined();
+		});
+	});
+
+	describe("CacheContainer.namespace", () => {
+		it("should return a container scoped to the namespace", async () => {
+			const container = new CacheContainer(new LRUStorage({ max: 100 }));
+			const billing = container.namespace("billing");
+
+			await billing.setItem("key", "invoice", { ttl: 1000 });
+			await container.setItem("key", "global");
+
+			await billing.clear();
+
+			expect(await billing.getItem("key")).toBeUndefined();
+			expect((await container.getItem("key"))?.content).toBe("global");
+		});
+
+		it("should keep statistics per container", async () => {
+			const container = new CacheContainer(new LRUStorage({ max: 100 }));
+			const billing = container.namespace("billing");
+
+			await billing.getItem("key");
+
+			expect(billing.getStats().misses).toBe(1);
+			expect(container.getStats().misses).toBe(0);
+		});
+	});
+});
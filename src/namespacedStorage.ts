@@ -0,0 +1,135 @@
+import { randomUUID } from "node:crypto";
+import type { CachedItem } from "./cacheContainer.ts";
+import { getMany, removeMany, type Storage, setMany } from "./storage.ts";
+
+const NAMESPACE_KEY_PREFIX = "node-ts-cache:ns:";
+const GENERATION_KEY_PREFIX = "node-ts-cache:generation:";
+
+/**
+ * View on a shared storage that prefixes all keys with `"node-ts-cache:ns:" + namespace + ":"`, so that its `clear()` only removes its own items.
+ * The prefix is reserved like the keys of tag versions, and namespaces must not contain ":",
+ * so neither plain keys nor other namespaces fall under it.
+ *
+ * If the wrapped storage supports key enumeration, `clear()` removes the keys of the namespace.
+ * Otherwise the keys additionally carry a generation stored in the wrapped storage, and `clear()` starts a new generation.
+ * The items of previous generations are no longer read and are left to expire, so give them a ttl.
+ */
+export class NamespacedStorage implements Storage {
+	private storage: Storage;
+	/** iterates over the keys of the namespace, only defined if the wrapped storage supports key enumeration */
+	keys?: (prefix?: string) => AsyncIterable<string>;
+	private prefix: string;
+	private generationKey: string;
+	/** Generation being started by this instance, shared by concurrent writes */
+	private pendingGeneration: Promise<string> | undefined;
+
+	constructor(storage: Storage, { namespace }: { namespace: string }) {
+		if (namespace === "") {
+			throw new Error("Namespace must not be empty");
+		}
+		if (namespace.includes(":")) {
+			throw new Error(`Namespace ${namespace} must not contain ":"`);
+		}
+
+		this.storage = storage;
+		this.prefix = `${NAMESPACE_KEY_PREFIX}${namespace}:`;
+		this.generationKey = GENERATION_KEY_PREFIX + namespace;
+		if (storage.keys) this.keys = (prefix) => this.namespaceKeys(prefix);
+	}
+
+	async clear(): Promise<void> {
+		if (!this.storage.keys) {
+			await this.startGeneration();
+			return;
+		}
+
+		const keys: string[] = [];
+		for await (const key of this.storage.keys(this.prefix)) {
+			keys.push(key);
+		}
+		await removeMany(this.storage, keys);
+	}
+
+	async getItem(key: string): Promise<CachedItem | undefined> {
+		const prefix = await this.keyPrefix(false);
+		if (prefix === undefined) return undefined;
+
+		return this.storage.getItem(prefix + key);
+	}
+
+	async setItem(key: string, content: CachedItem): Promise<void> {
+		const prefix = (await this.keyPrefix(true)) as string;
+		await this.storage.setItem(prefix + key, content);
+	}
+
+	async removeItem(key: string): Promise<void> {
+		const prefix = await this.keyPrefix(false);
+		if (prefix === undefined) return;
+
+		await this.storage.removeItem(prefix + key);
+	}
+
+	async getMany(keys: string[]): Promise<Array<CachedItem | undefined>> {
+		const prefix = await this.keyPrefix(false);
+		if (prefix === undefined) return keys.map(() => undefined);
+
+		return getMany(
+			this.storage,
+			keys.map((key) => prefix + key),
+		);
+	}
+
+	async setMany(
+		entries: Array<[key: string, content: CachedItem]>,
+	): Promise<void> {
+		const prefix = (await this.keyPrefix(true)) as string;
+		await setMany(
+			this.storage,
+			entries.map(([key, content]) => [prefix + key, content]),
+		);
+	}
+
+	async removeMany(keys: string[]): Promise<void> {
+		const prefix = await this.keyPrefix(false);
+		if (prefix === undefined) return;
+
+		await removeMany(
+			this.storage,
+			keys.map((key) => prefix + key),
+		);
+	}
+
+	private async *namespaceKeys(prefix = ""): AsyncIterable<string> {
+		for await (const key of this.storage.keys?.(this.prefix + prefix) ?? []) {
+			yield key.slice(this.prefix.length);
+		}
+	}
+
+	/**
+	 * returns the prefix for keys of the namespace, including the current generation if the storage can not enumerate keys.
+	 * Without a generation yet, one is started if `create` is set, otherwise undefined is returned.
+	 */
+	private async keyPrefix(create: boolean): Promise<string | undefined> {
+		if (this.storage.keys) return this.prefix;
+
+		const generation = await this.storage.getItem(this.generationKey);
+		if (generation !== undefined) {
+			return `${this.prefix}${generation.content}:`;
+		}
+		if (!create) return undefined;
+
+		this.pendingGeneration ??= this.startGeneration().finally(() => {
+			this.pendingGeneration = undefined;
+		});
+		return `${this.prefix}${await this.pendingGeneration}:`;
+	}
+
+	private async startGeneration(): Promise<string> {
+		const generation = randomUUID();
+		await this.storage.setItem(this.generationKey, {
+			content: generation,
+			meta: { createdAt: Date.now(), ttl: null, staleTtl: null },
+		});
+		return generation;
+	}
+}
@@ -0,0 +1,20 @@
+/** Source of random numbers in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+/**
+ * Creates a deterministic source of random numbers (mulberry32), e.g. to make ttl jitter reproducible in tests.
+ * Sources created with the same seed return the same sequence.
+ *
+ * @param seed - 32-bit integer seed
+ * @returns A function returning numbers in [0, 1)
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
@@ -0,0 +1,397 @@
+import { createServer, type Server } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CachedItem } from "./cacheContainer.ts";
+import { type Codec, jsonCodec, richCodec } from "./codec.ts";
+import { RedisStorage, RespClient } from "./redisStorage.ts";
+
+type Entry = { value: string; expiresAt: number | null };
+
+/**
+ * In-process stand-in for a redis server, supporting just the commands used by RedisStorage
+ */
+class FakeRedisServer {
+	public entries = new Map<string, Entry>();
+	public commands: string[][] = [];
+	private scanCursors = new Map<string, string>();
+	private server: Server;
+
+	constructor() {
+		this.server = createServer((socket) => {
+			let buffer = "";
+			socket.on("data", (chunk) => {
+				buffer += chunk.toString("utf8");
+				for (
+					let parsed = this.parseCommand(buffer);
+					parsed;
+					parsed = this.parseCommand(buffer)
+				) {
+					buffer = buffer.slice(parsed.length);
+					this.commands.push(parsed.args);
+					socket.write(this.execute(parsed.args));
+				}
+			});
+		});
+	}
+
+	async listen(): Promise<number> {
+		await new Promise<void>((resolve) =>
+			this.server.listen(0, "127.0.0.1", resolve),
+		);
+		const address = this.server.address();
+		return typeof address === "object" && address ? address.port : 0;
+	}
+
+	async close(): Promise<void> {
+		await new Promise((resolve) => this.server.close(resolve));
+	}
+
+	private parseCommand(buffer: string) {
+		const lines = buffer.split("\r\n");
+		const count = Number(lines[0]?.slice(1));
+		if (!lines[0]?.startsWith("*") || lines.length < count * 2 + 2) return;
+		const args: string[] = [];
+		for (let i = 0; i < count; i++) {
+			args.push(lines[2 + i * 2] as string);
+		}
+		return {
+			args,
+			length: lines.slice(0, count * 2 + 1).join("\r\n").length + 2,
+		};
+	}
+
+	private get(key: string) {
+		const entry = this.entries.get(key);
+		if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		return entry;
+	}
+
+	private execute([command, ...args]: string[]): string {
+		switch (command) {
+			case "GET": {
+				const entry = this.get(args[0] as string);
+				return entry
+					? `$${Buffer.byteLength(entry.value)}\r\n${entry.value}\r\n`
+					: "$-1\r\n";
+			}
+			case "SET": {
+				const [key, value, option, ms] = args as [
+					string,
+					string,
+					string?,
+					string?,
+				];
+				this.entries.set(key, {
+					value,
+					expiresAt: option === "PX" ? Date.now() + Number(ms) : null,
+				});
+				return "+OK\r\n";
+			}
+			case "DEL": {
+				let removed = 0;
+				for (const key of args) {
+					if (this.entries.delete(key)) removed++;
+				}
+				return `:${removed}\r\n`;
+			}
+			case "PTTL": {
+				const entry = this.get(args[0] as string);
+				if (!entry) return ":-2\r\n";
+				if (entry.expiresAt === null) return ":-1\r\n";
+				return `:${entry.expiresAt - Date.now()}\r\n`;
+			}
+			case "SCAN": {
+				const [cursor, , pattern, , count] = args as [
+					string,
+					string,
+					string,
+					string,
+					string,
+				];
+				const regex = new RegExp(
+					`^${pattern.replace(
+						/\\(.)|([.+^${}()|[\]\\?*])/g,
+						(_, escaped, special) =>
+							escaped !== undefined
+								? `\\${escaped}`
+								: special === "*"
+									? ".*"
+									: `\\${special}`,
+					)}$`,
+				);
+				// cursors point behind the last returned key, so deleting keys while scanning is safe
+				const after = this.scanCursors.get(cursor);
+				const keys = [...this.entries.keys()]
+					.sort()
+					.filter((key) => after === undefined || key > after);
+				const batch = keys.slice(0, Number(count));
+				const page = batch.filter((key) => regex.test(key));
+				let next = "0";
+				if (keys.length > batch.length) {
+					next = String(this.scanCursors.size + 1);
+					this.scanCursors.set(next, batch.at(-1) as string);
+				}
+				return `*2\r\n$${next.length}\r\n${next}\r\n*${page.length}\r\n${page
+					.map((key) => `$${Buffer.byteLength(key)}\r\n${key}\r\n`)
+					.join("")}`;
+			}
+			default:
+				return `-ERR unknown command '${command}'\r\n`;
+		}
+	}
+}
+
+describe("RedisStorage", () => {
+	let server: FakeRedisServer;
+	let client: RespClient;
+	let storage: RedisStorage;
+
+	const createItem = (
+		content: unknown,
+		meta: Partial<CachedItem["meta"]> = {},
+	): CachedItem => ({
+		content,
+		meta: {
+			createdAt: Date.now(),
+			ttl: null,
+			staleTtl: null,
+			...meta,
+		},
+	});
+
+	beforeEach(async () => {
+		server = new FakeRedisServer();
+		const port = await server.listen();
+		client = new RespClient({ port });
+		storage = new RedisStorage({ client, prefix: "test:" });
+	});
+
+	afterEach(async () => {
+		await client.close();
+		await server.close();
+	});
+
+	describe("setItem and getItem", () => {
+		it("should store and retrieve an item", async () => {
+			const item = createItem({ name: "test", values: [1, 2, 3] });
+
+			await storage.setItem("key", item);
+
+			expect(await storage.getItem("key")).toEqual(item);
+			expect(server.entries.has("test:key")).toBe(true);
+		});
+
+		it("should return undefined for non-existent key", async () => {
+			expect(await storage.getItem("missing")).toBeUndefined();
+		});
+
+		it("should handle multi-byte characters", async () => {
+			const item = createItem("äöü 🚀 日本語");
+
+			await storage.setItem("unicode-ключ", item);
+
+			expect(await storage.getItem("unicode-ключ")).toEqual(item);
+		});
+
+		it("should treat corrupted values as misses", async () => {
+			server.entries.set("test:key", { value: "{not json", expiresAt: null });
+
+			expect(await storage.getItem("key")).toBeUndefined();
+		});
+
+		it("should pipeline concurrent commands", async () => {
+			await Promise.all(
+				Array.from({ length: 20 }, (_, i) =>
+					storage.setItem(`key-${i}`, createItem(i)),
+				),
+			);
+
+			const items = await Promise.all(
+				Array.from({ length: 20 }, (_, i) => storage.getItem(`key-${i}`)),
+			);
+
+			expect(items.map((item) => item?.content)).toEqual(
+				Array.from({ length: 20 }, (_, i) => i),
+			);
+		});
+	});
+
+	describe("expiry", () => {
+		it("should not set an expiry for items without ttl", async () => {
+			await storage.setItem("key", createItem("content"));
+
+			expect(server.commands.at(-1)).toHaveLength(3);
+			expect(server.entries.get("test:key")?.expiresAt).toBeNull();
+		});
+
+		it("should map ttl onto native key expiry", async () => {
+			await storage.setItem("key", createItem("content", { ttl: 1000 }));
+
+			const pttl = await client.sendCommand(["PTTL", "test:key"]);
+			expect(pttl).toBeGreaterThan(900);
+			expect(pttl).toBeLessThanOrEqual(1000);
+		});
+
+		it("should keep stale items until staleTtl has passed", async () => {
+			await storage.setItem(
+				"key",
+				createItem("content", { ttl: 1000, staleTtl: 5000 }),
+			);
+
+			const pttl = await client.sendCommand(["PTTL", "test:key"]);
+			expect(pttl).toBeGreaterThan(4900);
+		});
+
+		it("should not store items that are already past their lifetime", async () => {
+			await storage.setItem(
+				"key",
+				createItem("content", { createdAt: Date.now() - 2000, ttl: 1000 }),
+			);
+
+			expect(await storage.getItem("key")).toBeUndefined();
+			expect(server.commands.at(-2)?.[0]).toBe("DEL");
+		});
+
+		it("should let the server evict expired items", async () => {
+			await storage.setItem("key", createItem("content", { ttl: 20 }));
+
+			await new Promise((resolve) => setTimeout(resolve, 40));
+
+			expect(await storage.getItem("key")).toBeUndefined();
+		});
+	});
+
+	describe("removeItem", () => {
+		it("should remove an item", async () => {
+			await storage.setItem("key", createItem("content"));
+
+			await storage.removeItem("key");
+
+			expect(await storage.getItem("key")).toBeUndefined();
+		});
+	});
+
+	describe("clear", () => {
+		it("should only remove keys with its prefix", async () => {
+			server.entries.set("other:key", { value: "keep", expiresAt: null });
+			await Promise.all(
+				Array.from({ length: 250 }, (_, i) =>
+					storage.setItem(`key-${i}`, createItem(i)),
+				),
+			);
+
+			await storage.clear();
+
+			expect([...server.entries.keys()]).toEqual(["other:key"]);
+			expect(server.commands.some(([command]) => command === "FLUSHDB")).toBe(
+				false,
+			);
+		});
+
+		it("should escape glob characters in the prefix", async () => {
+			const globStorage = new RedisStorage({ client, prefix: "a*:" });
+			server.entries.set("ab:key", { value: "keep", expiresAt: null });
+			await globStorage.setItem("key", createItem("content"));
+
+			await globStorage.clear();
+
+			expect([...server.entries.keys()]).toEqual(["ab:key"]);
+		});
+	});
+
+	describe("keys", () => {
+		it("should yield keys with the storage prefix stripped", async () => {
+			server.entries.set("other:a:1", { value: "keep", expiresAt: null });
+			await storage.setItem("a:1", createItem(1));
+			await storage.setItem("a:2", createItem(2));
+			await storage.setItem("b:1", createItem(3));
+
+			const keys: string[] = [];
+			for await (const key of storage.keys("a:")) keys.push(key);
+
+			expect(keys.sort()).toEqual(["a:1", "a:2"]);
+		});
+	});
+
+	describe("codec", () => {
+		it("should preserve rich types with the rich codec", async () => {
+			const richStorage = new RedisStorage({ client, codec: richCodec });
+			const item = createItem({ at: new Date(0), ids: new Set([1n, 2n]) });
+
+			await richStorage.setItem("key", item);
+
+			expect(await richStorage.getItem("key")).toEqual(item);
+		});
+
+		it("should store the output of binary codecs base64 encoded", async () => {
+			const binaryCodec: Codec = {
+				format: "binary",
+				encode: (item) =>
+					Buffer.from(jsonCodec.encode(item) as string).reverse(),
+				decode: (data) =>
+					jsonCodec.decode(Buffer.from(data).reverse().toString() as never),
+			};
+
+			const binaryStorage = new RedisStorage({ client, codec: binaryCodec });
+			const item = createItem("content");
+
+			await binaryStorage.setItem("key", item);
+
+			expect(await binaryStorage.getItem("key")).toEqual(item);
+			expect(server.entries.get("node-ts-cache:key")?.value).toMatch(
+				/^[A-Za-z0-9+/]+=*$/,
+			);
+		});
+	});
+
+	describe("client", () => {
+		it("should accept any client implementing sendCommand", async () => {
+			const values = new Map<string, string>();
+			const customStorage = new RedisStorage({
+				client: {
+					sendCommand: async ([command, key, value]) => {
+						if (command === "SET") values.set(key as string, value as string);
+						return command === "GET"
+							? (values.get(key as string) ?? null)
+							: "OK";
+					},
+				},
+			});
+
+			await customStorage.setItem("key", createItem("content"));
+
+			expect((await customStorage.getItem("key"))?.content).toBe("content");
+			expect(values.has("node-ts-cache:key")).toBe(true);
+		});
+
+		it("should close the client", async () => {
+			const close = vi.spyOn(client, "close");
+
+			await storage.close();
+
+			expect(close).toHaveBeenCalledOnce();
+		});
+
+		it("should not require clients to implement close", async () => {
+			const customStorage = new RedisStorage({
+				client: { sendCommand: async () => null },
+			});
+
+			await expect(customStorage.close()).resolves.toBeUndefined();
+		});
+
+		it("should reject commands with error replies", async () => {
+			await expect(client.sendCommand(["UNKNOWN"])).rejects.toThrow(
+				"unknown command",
+			);
+		});
+
+		it("should reject pending commands when the connection fails", async () => {
+			const unreachable = new RespClient({ port: 1 });
+
+			await expect(unreachable.sendCommand(["GET", "key"])).rejects.toThrow();
+		});
+	});
+});
@@ -0,0 +1,290 @@
+import { connect, type Socket } from "node:net";
+import type { CachedItem } from "./cacheContainer.ts";
+import { type Codec, jsonCodec } from "./codec.ts";
+import { debug } from "./debug.ts";
+import type { Storage } from "./storage.ts";
+
+export type RespValue = string | number | null | RespValue[];
+
+/**
+ * Minimal client interface required by RedisStorage.
+ * Any client that can send a raw command and resolve with the decoded reply can be adapted to it.
+ */
+export interface RedisCommandClient {
+	/**
+	 * sends a single command and resolves with its reply
+	 * @param args - command name followed by its arguments
+	 */
+	sendCommand(args: string[]): Promise<RespValue>;
+	/**
+	 * closes the connection, called by `RedisStorage.close()` if implemented
+	 */
+	close?(): Promise<void>;
+}
+
+type PendingReply = {
+	resolve: (value: RespValue) => void;
+	reject: (error: Error) => void;
+};
+
+const CRLF = "\r\n";
+
+/**
+ * Parses a single RESP reply starting at offset.
+ * Returns undefined if the buffer does not contain the full reply yet.
+ */
+const parseReply = (
+	buffer: Buffer,
+	offset: number,
+): { value: RespValue | Error; offset: number } | undefined => {
+	const lineEnd = buffer.indexOf(CRLF, offset);
+	if (lineEnd === -1) return undefined;
+
+	const type = String.fromCharCode(buffer[offset] as number);
+	const line = buffer.toString("utf8", offset + 1, lineEnd);
+	const next = lineEnd + CRLF.length;
+
+	switch (type) {
+		case "+":
+			return { value: line, offset: next };
+		case "-":
+			return { value: new Error(line), offset: next };
+		case ":":
+			return { value: Number(line), offset: next };
+		case "$": {
+			const length = Number(line);
+			if (length === -1) return { value: null, offset: next };
+			if (buffer.length < next + length + CRLF.length) return undefined;
+			return {
+				value: buffer.toString("utf8", next, next + length),
+				offset: next + length + CRLF.length,
+			};
+		}
+		case "*": {
+			const length = Number(line);
+			if (length === -1) return { value: null, offset: next };
+			const values: RespValue[] = [];
+			let position = next;
+			for (let i = 0; i < length; i++) {
+				const parsed = parseReply(buffer, position);
+				if (!parsed) return undefined;
+				if (parsed.value instanceof Error) throw parsed.value;
+				values.push(parsed.value);
+				position = parsed.offset;
+			}
+			return { value: values, offset: position };
+		}
+		default:
+			throw new Error(`Unexpected RESP reply type: ${type}`);
+	}
+};
+
+const encodeCommand = (args: string[]) =>
+	`*${args.length}${CRLF}${args
+		.map((arg) => `$${Buffer.byteLength(arg)}${CRLF}${arg}${CRLF}`)
+		.join("")}`;
+
+/**
+ * Small RESP2 client on top of `node:net`, connecting lazily on the first command.
+ * Commands are pipelined over a single connection and replies are matched in order.
+ */
+export class RespClient implements RedisCommandClient {
+	private socket: Socket | undefined;
+	private buffer: Buffer = Buffer.alloc(0);
+	private pending: PendingReply[] = [];
+
+	constructor(private options: { host?: string; port?: number } = {}) {}
+
+	sendCommand(args: string[]): Promise<RespValue> {
+		const socket = this.getSocket();
+		return new Promise((resolve, reject) => {
+			this.pending.push({ resolve, reject });
+			socket.write(encodeCommand(args));
+		});
+	}
+
+	/**
+	 * closes the connection, rejecting all pending commands
+	 */
+	async close(): Promise<void> {
+		const socket = this.socket;
+		if (!socket) return;
+		this.socket = undefined;
+		await new Promise<void>((resolve) => socket.end(resolve));
+	}
+
+	private getSocket(): Socket {
+		if (this.socket) return this.socket;
+
+		const socket = connect({
+			host: this.options.host ?? "127.0.0.1",
+			port: this.options.port ?? 6379,
+		});
+		socket.on("data", (chunk) => this.onData(chunk));
+		socket.on("error", (error) => this.onClose(socket, error));
+		socket.on("close", () =>
+			this.onClose(socket, new Error("Redis connection closed")),
+		);
+		this.socket = socket;
+		return socket;
+	}
+
+	private onData(chunk: Buffer) {
+		this.buffer = Buffer.concat([this.buffer, chunk]);
+
+		let offset = 0;
+		try {
+			for (
+				let parsed = parseReply(this.buffer, offset);
+				parsed;
+				parsed = parseReply(this.buffer, offset)
+			) {
+				offset = parsed.offset;
+				const reply = this.pending.shift();
+				if (parsed.value instanceof Error) {
+					reply?.reject(parsed.value);
+				} else {
+					reply?.resolve(parsed.value);
+				}
+			}
+		} catch (error) {
+			this.socket?.destroy(error as Error);
+			return;
+		}
+
+		this.buffer = this.buffer.subarray(offset);
+	}
+
+	private onClose(socket: Socket, error: Error) {
+		socket.destroy();
+		if (this.socket !== socket && this.socket !== undefined) return;
+		this.socket = undefined;
+		this.buffer = Buffer.alloc(0);
+		for (const reply of this.pending.splice(0)) {
+			reply.reject(error);
+		}
+	}
+}
+
+/**
+ * Storage for Redis or any server speaking the Redis protocol.
+ *
+ * Items are serialized with the codec (JSON by default) and stored under `prefix + key`,
+ * output of binary codecs is stored base64 encoded. The lifetime of an item (the longer of ttl and staleTtl)
+ * is mapped onto native key expiry, so the server evicts dead entries by itself.
+ * `clear()` only removes keys carrying the prefix instead of flushing the whole database.
+ */
+export class RedisStorage implements Storage {
+	private client: RedisCommandClient;
+	private codec: Codec;
+	private prefix: string;
+	private scanCount: number;
+
+	constructor({
+		client = new RespClient(),
+		codec = jsonCodec,
+		prefix = "node-ts-cache:",
+		scanCount = 100,
+	}: {
+		client?: RedisCommandClient;
+		codec?: Codec;
+		prefix?: string;
+		scanCount?: number;
+	} = {}) {
+		this.client = client;
+		this.codec = codec;
+		this.prefix = prefix;
+		this.scanCount = scanCount;
+	}
+
+	async clear(): Promise<void> {
+		const keys: string[] = [];
+		for await (const key of this.scan("")) {
+			keys.push(key);
+			if (keys.length >= this.scanCount) {
+				await this.client.sendCommand(["DEL", ...keys.splice(0)]);
+			}
+		}
+		if (keys.length > 0) {
+			await this.client.sendCommand(["DEL", ...keys]);
+		}
+	}
+
+	async *keys(prefix = ""): AsyncIterable<string> {
+		for await (const key of this.scan(prefix)) {
+			yield key.slice(this.prefix.length);
+		}
+	}
+
+	async getItem(key: string): Promise<CachedItem | undefined> {
+		const raw = await this.client.sendCommand(["GET", this.prefix + key]);
+		if (typeof raw !== "string") return undefined;
+
+		try {
+			return this.codec.format === "text"
+				? this.codec.decode(raw)
+				: this.codec.decode(Buffer.from(raw, "base64"));
+		} catch {
+			debug(`Ignoring corrupted redis value for ${key}`);
+			return undefined;
+		}
+	}
+
+	async setItem(key: string, content: CachedItem): Promise<void> {
+		const { createdAt, ttl, staleTtl } = content.meta;
+		const value =
+			this.codec.format === "text"
+				? this.codec.encode(content)
+				: Buffer.from(this.codec.encode(content)).toString("base64");
+
+		if (ttl === null) {
+			await this.client.sendCommand(["SET", this.prefix + key, value]);
+			return;
+		}
+
+		const expiresIn = createdAt + Math.max(ttl, staleTtl ?? 0) - Date.now();
+		if (expiresIn <= 0) {
+			await this.removeItem(key);
+			return;
+		}
+
+		await this.client.sendCommand([
+			"SET",
+			this.prefix + key,
+			value,
+			"PX",
+			String(Math.ceil(expiresIn)),
+		]);
+	}
+
+	async removeItem(key: string): Promise<void> {
+		await this.client.sendCommand(["DEL", this.prefix + key]);
+	}
+
+	/**
+	 * closes the client, if it supports closing
+	 */
+	async close(): Promise<void> {
+		await this.client.close?.();
+	}
+
+	/**
+	 * iterates over all redis keys starting with the storage prefix followed by prefix
+	 */
+	private async *scan(prefix: string): AsyncIterable<string> {
+		const pattern = `${(this.prefix + prefix).replace(/[*?[\]\\]/g, "\\$&")}*`;
+		let cursor = "0";
+		do {
+			const [nextCursor, keys] = (await this.client.sendCommand([
+				"SCAN",
+				cursor,
+				"MATCH",
+				pattern,
+				"COUNT",
+				String(this.scanCount),
+			])) as [string, string[]];
+			yield* keys;
+			cursor = nextCursor;
+		} while (cursor !== "0");
+	}
+}
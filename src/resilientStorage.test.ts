@@ -0,0 +1,240 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { CacheContainer, type CachedItem } from "./cacheContainer.ts";
+import { FallbackStorage } from "./fallbackStorage.ts";
+import { LRUStorage } from "./lruStorage.ts";
+import { ResilientStorage } from "./resilientStorage.ts";
+import type { Storage } from "./storage.ts";
+
+describe("ResilientStorage", () => {
+	const createItem = (content: unknown): CachedItem => ({
+		content,
+		meta: {
+			createdAt: Date.now(),
+			ttl: null,
+			staleTtl: null,
+		},
+	});
+
+	const wait = (ms: number) =>
+		new Promise((resolve) => setTimeout(resolve, ms));
+
+	/** a storage whose behaviour can be switched between working, failing and hanging */
+	const createFlakyStorage = () => {
+		const inner = new LRUStorage({ max: 100 });
+		const control = {
+			mode: "working" as "working" | "failing" | "hanging",
+			calls: 0,
+		};
+		const call = async <T>(operation: () => Promise<T>): Promise<T> => {
+			control.calls++;
+			if (control.mode === "failing") throw new Error("Connection refused");
+			if (control.mode === "hanging") return new Promise<never>(() => {});
+			return operation();
+		};
+		const storage: Storage = {
+			getItem: (key) => call(() => inner.getItem(key)),
+			setItem: (key, content) => call(() => inner.setItem(key, content)),
+			removeItem: (key) => call(() => inner.removeItem(key)),
+			clear: () => call(() => inner.clear()),
+		};
+		return { control, inner, storage };
+	};
+
+	let flaky: ReturnType<typeof createFlakyStorage>;
+	let errors: Array<{ error: unknown; operation: string }>;
+	let storage: ResilientStorage;
+
+	beforeEach(() => {
+		flaky = createFlakyStorage();
+		errors = [];
+		storage = new ResilientStorage(flaky.storage, {
+			timeoutMs: 20,
+			failureThreshold: 2,
+			cooldownMs: 50,
+			onError: (error, operation) => errors.push({ error, operation }),
+		});
+	});
+
+	describe("passing through", () => {
+		it("should store and retrieve items while the storage works", async () => {
+			const item = createItem("content");
+
+			await storage.setItem("key", item);
+
+			expect(await storage.getItem("key")).toEqual(item);
+			expect(await flaky.inner.getItem("key")).toEqual(item);
+			expect(errors).toEqual([]);
+		});
+
+		it("should remove items and clear the storage", async () => {
+			await storage.setItem("key1", createItem(1));
+			await storage.setItem("key2", createItem(2));
+
+			await storage.removeItem("key1");
+			expect(await storage.getItem("key1")).toBeUndefined();
+
+			await storage.clear();
+			expect(await storage.getItem("key2")).toBeUndefined();
+		});
+
+		it("should use batch operations of the storage", async () => {
+			await storage.setMany([
+				["key1", createItem(1)],
+				["key2", createItem(2)],
+			]);
+
+			expect(
+				(await storage.getMany(["key2", "key1"])).map((item) => item?.content),
+			).toEqual([2, 1]);
+
+			await storage.removeMany(["key1"]);
+			expect(await storage.getItem("key1")).toBeUndefined();
+		});
+	});
+
+	describe("failures", () => {
+		it("should treat failing reads as misses", async () => {
+			await storage.setItem("key", createItem("content"));
+			flaky.control.mode = "failing";
+
+			expect(await storage.getItem("key")).toBeUndefined();
+			expect(await storage.getMany(["key", "other"])).toEqual([
+				undefined,
+				undefined,
+			]);
+			expect(errors.map(({ operation }) => operation)).toEqual([
+				"getItem",
+				"getMany",
+			]);
+		});
+
+		it("should drop failing writes", async () => {
+			const tolerant = new ResilientStorage(flaky.storage, {
+				failureThreshold: 5,
+				onError: (error, operation) => errors.push({ error, operation }),
+			});
+			flaky.control.mode = "failing";
+
+			await expect(
+				tolerant.setItem("key", createItem("content")),
+			).resolves.toBeUndefined();
+			await expect(tolerant.removeItem("key")).resolves.toBeUndefined();
+			await expect(tolerant.clear()).resolves.toBeUndefined();
+			expect(errors.map(({ operation }) => operation)).toEqual([
+				"setItem",
+				"removeItem",
+				"clear",
+			]);
+		});
+
+		it("should treat failing reads as misses if onError throws", async () => {
+			const throwing = new ResilientStorage(flaky.storage, {
+				onError: () => {
+					throw new Error("hook failed");
+				},
+			});
+			flaky.control.mode = "failing";
+
+			await expect(throwing.getItem("key")).resolves.toBeUndefined();
+			await expect(
+				throwing.setItem("key", createItem("content")),
+			).resolves.toBeUndefined();
+		});
+
+		it("should time out hanging calls", async () => {
+			flaky.control.mode = "hanging";
+
+			const startedAt = Date.now();
+			expect(await storage.getItem("key")).toBeUndefined();
+
+			expect(Date.now() - startedAt).toBeLessThan(200);
+			expect(String(errors[0]?.error)).toContain(
+				"getItem timed out after 20ms",
+			);
+		});
+	});
+
+	describe("circuit breaker", () => {
+		it("should open after consecutive failures and skip the storage", async () => {
+			flaky.control.mode = "failing";
+
+			await storage.getItem("key");
+			expect(storage.state).toBe("closed");
+			await storage.getItem("key");
+			expect(storage.state).toBe("open");
+
+			await storage.getItem("key");
+			await storage.setItem("key", createItem("content"));
+
+			expect(flaky.control.calls).toBe(2);
+			expect(errors).toHaveLength(2);
+		});
+
+		it("should reset the failure count after a success", async () => {
+			flaky.control.mode = "failing";
+			await storage.getItem("key");
+			flaky.control.mode = "working";
+			await storage.getItem("key");
+			flaky.control.mode = "failing";
+			await storage.getItem("key");
+
+			expect(storage.state).toBe("closed");
+		});
+
+		it("should close again after a successful trial call", async () => {
+			flaky.control.mode = "failing";
+			await storage.getItem("key");
+			await storage.getItem("key");
+
+			await wait(60);
+			expect(storage.state).toBe("half-open");
+			flaky.control.mode = "working";
+			await storage.setItem("key", createItem("content"));
+
+			expect(storage.state).toBe("closed");
+			expect((await storage.getItem("key"))?.content).toBe("content");
+		});
+
+		it("should open again after a failed trial call", async () => {
+			flaky.control.mode = "failing";
+			await storage.getItem("key");
+			await storage.getItem("key");
+
+			await wait(60);
+			await storage.getItem("key");
+
+			expect(storage.state).toBe("open");
+			expect(flaky.control.calls).toBe(3);
+		});
+
+		it("should let only a single trial call through", async () => {
+			flaky.control.mode = "failing";
+			await storage.getItem("key");
+			await storage.getItem("key");
+			await wait(60);
+			flaky.control.mode = "hanging";
+
+			await Promise.all([storage.getItem("key"), storage.getItem("key")]);
+
+			expect(flaky.control.calls).toBe(3);
+			expect(storage.state).toBe("open");
+		});
+	});
+
+	describe("within FallbackStorage", () => {
+		it("should fall through to the next tier when a tier hangs", async () => {
+			const lower = new LRUStorage({ max: 100 });
+			await lower.setItem("key", createItem("from lower tier"));
+			flaky.control.mode = "hanging";
+			const container = new CacheContainer(
+				new FallbackStorage([storage, lower]),
+			);
+
+			const startedAt = Date.now();
+			const item = await container.getItem("key");
+
+			expect(item?.content).toBe("from lower tier");
+			expect(Date.now() - startedAt).toBeLessThan(200);
+		});
+	});
+});
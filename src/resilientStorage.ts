@@ -0,0 +1,178 @@
+import type { CachedItem } from "./cacheContainer.ts";
+import { debug } from "./debug.ts";
+import { getMany, removeMany, type Storage, setMany } from "./storage.ts";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type ResilientStorageOptions = {
+	/**
+	 * Time in milliseconds after which a call to the storage counts as failed
+	 * @default 1000
+	 */
+	timeoutMs?: number;
+	/**
+	 * Number of consecutive failures after which the circuit opens and the storage is skipped
+	 * @default 5
+	 */
+	failureThreshold?: number;
+	/**
+	 * Time in milliseconds the storage is skipped for once the circuit opened.
+	 * Afterwards a single trial call decides whether the circuit closes again.
+	 * @default 30000
+	 */
+	cooldownMs?: number;
+	/** Called when a call to the storage fails or times out */
+	onError?: (error: unknown, operation: string) => void;
+};
+
+/**
+ * Storage decorator protecting callers from slow or failing storages, e.g. remote tiers of a FallbackStorage.
+ *
+ * Every call is limited by a timeout. Failures (including timeouts) are reported instead of thrown:
+ * reads return misses, writes and removals are dropped. After `failureThreshold` consecutive failures the circuit opens
+ * and the storage is skipped entirely for `cooldownMs`, then a single trial call decides whether it is used again.
+ * Key enumeration is passed through unprotected.
+ */
+export class ResilientStorage implements Storage {
+	private storage: Storage;
+	/** iterates over the keys of the wrapped storage, only defined if it supports key enumeration */
+	keys?: (prefix?: string) => AsyncIterable<string>;
+	private timeoutMs: number;
+	private failureThreshold: number;
+	private cooldownMs: number;
+	private onError: ((error: unknown, operation: string) => void) | undefined;
+
+	private failures = 0;
+	private openedAt: number | undefined;
+	private trialRunning = false;
+
+	constructor(
+		storage: Storage,
+		{
+			timeoutMs = 1000,
+			failureThreshold = 5,
+			cooldownMs = 30000,
+			onError,
+		}: ResilientStorageOptions = {},
+	) {
+		this.storage = storage;
+		this.timeoutMs = timeoutMs;
+		this.failureThreshold = failureThreshold;
+		this.cooldownMs = cooldownMs;
+		this.onError = onError;
+		if (storage.keys) this.keys = storage.keys.bind(storage);
+	}
+
+	/**
+	 * state of the circuit breaker: "closed" while the storage is used, "open" while it is skipped
+	 * and "half-open" once the cooldown passed and the next call is a trial
+	 */
+	get state(): CircuitState {
+		if (this.openedAt === undefined) return "closed";
+		return Date.now() - this.openedAt >= this.cooldownMs ? "half-open" : "open";
+	}
+
+	async clear(): Promise<void> {
+		await this.run("clear", () => this.storage.clear(), undefined);
+	}
+
+	async getItem(key: string): Promise<CachedItem | undefined> {
+		return this.run("getItem", () => this.storage.getItem(key), undefined);
+	}
+
+	async setItem(key: string, content: CachedItem): Promise<void> {
+		await this.run(
+			"setItem",
+			() => this.storage.setItem(key, content),
+			undefined,
+		);
+	}
+
+	async removeItem(key: string): Promise<void> {
+		await this.run("removeItem", () => this.storage.removeItem(key), undefined);
+	}
+
+	async getMany(keys: string[]): Promise<Array<CachedItem | undefined>> {
+		return this.run(
+			"getMany",
+			() => getMany(this.storage, keys),
+			keys.map(() => undefined),
+		);
+	}
+
+	async setMany(
+		entries: Array<[key: string, content: CachedItem]>,
+	): Promise<void> {
+		await this.run("setMany", () => setMany(this.storage, entries), undefined);
+	}
+
+	async removeMany(keys: string[]): Promise<void> {
+		await this.run(
+			"removeMany",
+			() => removeMany(this.storage, keys),
+			undefined,
+		);
+	}
+
+	/**
+	 * calls the storage unless the circuit is open, returning the fallback on failure
+	 */
+	private async run<T>(
+		operation: string,
+		call: () => Promise<T>,
+		fallback: T,
+	): Promise<T> {
+		const state = this.state;
+		if (state === "open" || (state === "half-open" && this.trialRunning)) {
+			debug(`Skipping ${operation}, the circuit is open`);
+			return fallback;
+		}
+
+		const isTrial = state === "half-open";
+		if (isTrial) this.trialRunning = true;
+		try {
+			const result = await this.withTimeout(operation, call);
+			this.failures = 0;
+			this.openedAt = undefined;
+			return result;
+		} catch (error) {
+			this.failures++;
+			if (isTrial || this.failures >= this.failureThreshold) {
+				debug(`Opening the circuit after ${this.failures} failures`);
+				this.openedAt = Date.now();
+			}
+			debug(`${operation} failed: ${error}`);
+			try {
+				this.onError?.(error, operation);
+			} catch (hookError) {
+				debug(`onError of resilient storage failed: ${hookError}`);
+			}
+			return fallback;
+		} finally {
+			if (isTrial) this.trialRunning = false;
+		}
+	}
+
+	private async withTimeout<T>(
+		operation: string,
+		call: () => Promise<T>,
+	): Promise<T> {
+		let timer: NodeJS.Timeout | undefined;
+		try {
+			return await Promise.race([
+				call(),
+				new Promise<never>((_, reject) => {
+					timer = setTimeout(
+						() =>
+							reject(
+								new Error(`${operation} timed out after ${this.timeoutMs}ms`),
+							),
+						this.timeoutMs,
+					);
+				}),
+			]);
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+}
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CachedItem } from "./cacheContainer.ts";
+import { type Codec, jsonCodec, richCodec } from "./codec.ts";
+import { SqliteStorage } from "./sqliteStorage.ts";
+
+describe("SqliteStorage", () => {
+	let storage: SqliteStorage;
+
+	const createItem = (
+		content: unknown,
+		meta: Partial<CachedItem["meta"]> = {},
+	): CachedItem => ({
+		content,
+		meta: {
+			createdAt: Date.now(),
+			ttl: null,
+			staleTtl: null,
+			...meta,
+		},
+	});
+
+	beforeEach(() => {
+		storage = new SqliteStorage();
+	});
+
+	afterEach(async () => {
+		vi.useRealTimers();
+		await storage.close();
+	});
+
+	describe("setItem and getItem", () => {
+		it("should store and retrieve an item", async () => {
+			const item = createItem(
+				{ name: "test", values: [1, 2, 3] },
+				{ ttl: 1000, staleTtl: 2000 },
+			);
+
+			await storage.setItem("test-key", item);
+
+			expect(await storage.getItem("test-key")).toEqual(item);
+		});
+
+		it("should return undefined for non-existent key", async () => {
+			expect(await storage.getItem("missing")).toBeUndefined();
+		});
+
+		it("should overwrite existing item with same key", async () => {
+			await storage.setItem("test-key", createItem("first"));
+			await storage.setItem("test-key", createItem("second"));
+
+			expect((await storage.getItem("test-key"))?.content).toBe("second");
+		});
+
+		it("should keep additional meta data", async () => {
+			const item = createItem("content", { tags: { user: "version-1" } });
+
+			await storage.setItem("test-key", item);
+
+			expect(await storage.getItem("test-key")).toEqual(item);
+		});
+
+		it("should store items with fractional ttls", async () => {
+			const item = createItem("content", { ttl: 1500.5, staleTtl: 2500.25 });
+
+			await storage.setItem("test-key", item);
+
+			expect(await storage.getItem("test-key")).toEqual(item);
+		});
+
+		it("should distinguish null and undefined content", async () => {
+			await storage.setItem("null", createItem(null));
+			await storage.setItem("undefined", createItem(undefined));
+
+			expect((await storage.getItem("null"))?.content).toBeNull();
+			const item = await storage.getItem("undefined");
+			expect(item).toBeDefined();
+			expect(item?.content).toBeUndefined();
+		});
+	});
+
+	describe("removeItem", () => {
+		it("should remove only the specified key", async () => {
+			await storage.setItem("key1", createItem("content1"));
+			await storage.setItem("key2", createItem("content2"));
+
+			await storage.removeItem("key1");
+
+			expect(await storage.getItem("key1")).toBeUndefined();
+			expect((await storage.getItem("key2"))?.content).toBe("content2");
+		});
+	});
+
+	describe("clear", () => {
+		it("should remove all items", async () => {
+			await storage.setItem("key1", createItem("content1"));
+			await storage.setItem("key2", createItem("content2"));
+
+			await storage.clear();
+
+			expect(await storage.getItem("key1")).toBeUndefined();
+			expect(await storage.getItem("key2")).toBeUndefined();
+		});
+	});
+
+	describe("keys", () => {
+		it("should only yield keys with the given prefix", async () => {
+			await storage.setItem("a:1", createItem(1));
+			await storage.setItem("a:2", createItem(2));
+			await storage.setItem("b:1", createItem(3));
+			await storage.setItem("a%", createItem(4));
+
+			const keys: string[] = [];
+			for await (const key of storage.keys("a:")) keys.push(key);
+
+			expect(keys.sort()).toEqual(["a:1", "a:2"]);
+		});
+	});
+
+	describe("purgeExpired", () => {
+		it("should remove only rows that are neither fresh nor stale", async () => {
+			vi.useFakeTimers();
+
+			await storage.setItem("forever", createItem("forever"));
+			await storage.setItem("short", createItem("short", { ttl: 50 }));
+			await storage.setItem(
+				"stale",
+				createItem("stale", { ttl: 50, staleTtl: 200 }),
+			);
+			await storage.setItem("long", createItem("long", { ttl: 500 }));
+
+			vi.advanceTimersByTime(100);
+
+			expect(await storage.purgeExpired()).toBe(1);
+			expect(await storage.getItem("short")).toBeUndefined();
+			expect(await storage.getItem("stale")).toBeDefined();
+			expect(await storage.getItem("long")).toBeDefined();
+			expect(await storage.getItem("forever")).toBeDefined();
+		});
+	});
+
+	describe("tableName", () => {
+		it("should keep tables separate within one database", async () => {
+			const first = new SqliteStorage({ tableName: "first" });
+			await first.setItem("key", createItem("content"));
+
+			expect(await storage.getItem("key")).toBeUndefined();
+			await first.close();
+		});
+
+		it("should reject invalid table names", () => {
+			expect(
+				() => new SqliteStorage({ tableName: "cache; DROP TABLE x" }),
+			).toThrow("Invalid table name");
+		});
+
+		it("should name the Node.js requirement if node:sqlite is unavailable", () => {
+			const getBuiltinModule = vi
+				.spyOn(process, "getBuiltinModule")
+				.mockReturnValue(undefined);
+			try {
+				expect(() => new SqliteStorage()).toThrow("Node.js 22.5");
+			} finally {
+				getBuiltinModule.mockRestore();
+			}
+		});
+	});
+
+	describe("codec", () => {
+		it("should preserve rich types with the rich codec", async () => {
+			const richStorage = new SqliteStorage({ codec: richCodec });
+			const item = createItem(
+				{ at: new Date(0), ids: new Set([1n, 2n]) },
+				{ ttl: 1000 },
+			);
+
+			await richStorage.setItem("key", item);
+
+			expect(await richStorage.getItem("key")).toEqual(item);
+			await richStorage.close();
+		});
+
+		it("should store the output of binary codecs as blob", async () => {
+			const binaryCodec: Codec = {
+				format: "binary",
+				encode: (item) =>
+					Buffer.from(jsonCodec.encode(item) as string).reverse(),
+				decode: (data) =>
+					jsonCodec.decode(Buffer.from(data).reverse().toString() as never),
+			};
+
+			const binaryStorage = new SqliteStorage({ codec: binaryCodec });
+			const item = createItem("content", { ttl: 1000 });
+
+			await binaryStorage.setItem("key", item);
+
+			expect(await binaryStorage.getItem("key")).toEqual(item);
+			await binaryStorage.close();
+		});
+	});
+});
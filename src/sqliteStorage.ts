@@ -0,0 +1,139 @@
+import type { DatabaseSync, StatementSync } from "node:sqlite";
+import type { CachedItem } from "./cacheContainer.ts";
+import { type Codec, jsonCodec } from "./codec.ts";
+import { debug } from "./debug.ts";
+import type { Storage } from "./storage.ts";
+
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+type CacheRow = {
+	item: string | Uint8Array;
+};
+
+/**
+ * Durable storage backed by the built-in `node:sqlite` module.
+ *
+ * Items are serialized with the codec (JSON by default) and stored as text or blob. The lifetime related
+ * `meta` fields are kept in columns of their own, so expired rows can be purged with a single statement via `purgeExpired()`.
+ * Use the default path `:memory:` for an in-memory database.
+ *
+ * Requires Node.js 22.5 or later, and before Node.js 22.13 the `--experimental-sqlite` flag.
+ */
+export class SqliteStorage implements Storage {
+	private database: DatabaseSync;
+	private codec: Codec;
+	private statements: {
+		get: StatementSync;
+		set: StatementSync;
+		remove: StatementSync;
+		clear: StatementSync;
+		keys: StatementSync;
+		purge: StatementSync;
+	};
+
+	constructor({
+		path = ":memory:",
+		tableName = "cache",
+		codec = jsonCodec,
+	}: { path?: string; tableName?: string; codec?: Codec } = {}) {
+		if (!TABLE_NAME_PATTERN.test(tableName)) {
+			throw new Error(`Invalid table name: ${tableName}`);
+		}
+
+		// loaded lazily so importing the package does not emit the experimental warning of node:sqlite
+		const sqlite: typeof import("node:sqlite") | undefined =
+			process.getBuiltinModule?.("node:sqlite");
+		if (!sqlite) {
+			throw new Error(
+				"SqliteStorage requires node:sqlite, available from Node.js 22.5 (before 22.13 with the --experimental-sqlite flag)",
+			);
+		}
+		const { DatabaseSync } = sqlite;
+		this.codec = codec;
+		this.database = new DatabaseSync(path);
+		this.database.exec(`
+			CREATE TABLE IF NOT EXISTS ${tableName} (
+				key TEXT PRIMARY KEY,
+				item ANY NOT NULL,
+				created_at INTEGER NOT NULL,
+				ttl INTEGER,
+				stale_ttl INTEGER
+			) STRICT
+		`);
+
+		this.statements = {
+			get: this.database.prepare(`SELECT item FROM ${tableName} WHERE key = ?`),
+			set: this.database.prepare(
+				`INSERT OR REPLACE INTO ${tableName} (key, item, created_at, ttl, stale_ttl) VALUES (?, ?, ?, ?, ?)`,
+			),
+			remove: this.database.prepare(`DELETE FROM ${tableName} WHERE key = ?`),
+			clear: this.database.prepare(`DELETE FROM ${tableName}`),
+			keys: this.database.prepare(
+				`SELECT key FROM ${tableName} WHERE substr(key, 1, length(?1)) = ?1`,
+			),
+			purge: this.database.prepare(
+				`DELETE FROM ${tableName} WHERE ttl IS NOT NULL AND created_at + MAX(ttl, COALESCE(stale_ttl, 0)) < ?`,
+			),
+		};
+	}
+
+	async clear(): Promise<void> {
+		this.statements.clear.run();
+	}
+
+	async getItem(key: string): Promise<CachedItem | undefined> {
+		const row = this.statements.get.get(key) as CacheRow | undefined;
+		if (!row) return undefined;
+
+		try {
+			if (this.codec.format === "text") {
+				if (typeof row.item === "string") return this.codec.decode(row.item);
+			} else if (typeof row.item !== "string") {
+				return this.codec.decode(row.item);
+			}
+		} catch {
+			// handled below
+		}
+		debug(`Ignoring corrupted row for ${key}`);
+		return undefined;
+	}
+
+	async setItem(key: string, content: CachedItem): Promise<void> {
+		const { createdAt, ttl, staleTtl } = content.meta;
+		// the columns are integers, the item itself keeps fractional values
+		this.statements.set.run(
+			key,
+			this.codec.encode(content),
+			Math.round(createdAt),
+			ttl === null ? null : Math.round(ttl),
+			staleTtl == null ? null : Math.round(staleTtl),
+		);
+	}
+
+	async removeItem(key: string): Promise<void> {
+		this.statements.remove.run(key);
+	}
+
+	async *keys(prefix = ""): AsyncIterable<string> {
+		const rows = this.statements.keys.all(prefix) as { key: string }[];
+		for (const { key } of rows) {
+			yield key;
+		}
+	}
+
+	/**
+	 * removes all rows that are neither fresh nor stale anymore
+	 * @returns the number of removed rows
+	 */
+	async purgeExpired(): Promise<number> {
+		const { changes } = this.statements.purge.run(Date.now());
+		return Number(changes);
+	}
+
+	/**
+	 * closes the underlying database connection
+	 */
+	async close(): Promise<void> {
+		this.database.close();
+	}
+}
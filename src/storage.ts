@@ -24,4 +24,73 @@ export interface Storage {
 	 * remove all keys from the storage layer
 	 */
 	clear(): Promise<void>;
+
+	/**
+	 * iterates over the keys in the storage layer.
+	 * Optional, as not every storage layer is able to enumerate its keys
+	 * @param prefix - only yield keys starting with this prefix
+	 */
+	keys?(prefix?: string): AsyncIterable<string>;
+
+	/**
+	 * returns multiple cached items at once, in the order of the keys.
+	 * Optional, use `getMany` to fall back to single getItem calls
+	 * @param keys - keys to look up
+	 */
+	getMany?(keys: string[]): Promise<Array<CachedItem | undefined>>;
+
+	/**
+	 * sets multiple cached items at once.
+	 * Optional, use `setMany` to fall back to single setItem calls
+	 * @param entries - pairs of key and content to store
+	 */
+	setMany?(entries: Array<[key: string, content: CachedItem]>): Promise<void>;
+
+	/**
+	 * removes multiple items at once.
+	 * Optional, use `removeMany` to fall back to single removeItem calls
+	 * @param keys - keys to remove
+	 */
+	removeMany?(keys: string[]): Promise<void>;
 }
+
+/**
+ * returns multiple cached items from a storage, using its batch operation if available
+ * @param storage - storage to read from
+ * @param keys - keys to look up
+ */
+export const getMany = (
+	storage: Storage,
+	keys: string[],
+): Promise<Array<CachedItem | undefined>> =>
+	storage.getMany
+		? storage.getMany(keys)
+		: Promise.all(keys.map((key) => storage.getItem(key)));
+
+/**
+ * sets multiple cached items on a storage, using its batch operation if available
+ * @param storage - storage to write to
+ * @param entries - pairs of key and content to store
+ */
+export const setMany = async (
+	storage: Storage,
+	entries: Array<[key: string, content: CachedItem]>,
+): Promise<void> => {
+	if (storage.setMany) return storage.setMany(entries);
+	await Promise.all(
+		entries.map(([key, content]) => storage.setItem(key, content)),
+	);
+};
+
+/**
+ * removes multiple items from a storage, using its batch operation if available
+ * @param storage - storage to remove from
+ * @param keys - keys to remove
+ */
+export const removeMany = async (
+	storage: Storage,
+	keys: string[],
+): Promise<void> => {
+	if (storage.removeMany) return storage.removeMany(keys);
+	await Promise.all(keys.map((key) => storage.removeItem(key)));
+};
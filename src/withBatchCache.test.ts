@@ -0,0 +1,277 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { CacheContainer } from "./cacheContainer.ts";
+import { LRUStorage } from "./lruStorage.ts";
+import { withBatchCacheFactory } from "./withBatchCache.ts";
+
+describe("withBatchCache", () => {
+	let storage: LRUStorage;
+	let container: CacheContainer;
+	let withBatchCache: ReturnType<typeof withBatchCacheFactory>;
+
+	beforeEach(() => {
+		storage = new LRUStorage({ max: 100 });
+		container = new CacheContainer(storage);
+		withBatchCache = withBatchCacheFactory(container);
+	});
+
+	const createGetUsers = () => {
+		const calls: number[][] = [];
+		const getUsers = async (ids: number[]) => {
+			calls.push(ids);
+			return ids.map((id) => ({ id, name: `user-${id}` }));
+		};
+		return { calls, getUsers };
+	};
+
+	describe("Per-id caching", () => {
+		it("should cache each id individually", async () => {
+			const { calls, getUsers } = createGetUsers();
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 1000,
+				prefix: "users",
+			});
+
+			await cachedFn([1, 2]);
+			const result = await cachedFn([2, 3, 1]);
+
+			expect(result.map((user) => user.id)).toEqual([2, 3, 1]);
+			expect(calls).toEqual([[1, 2], [3]]);
+		});
+
+		it("should not call the batch function when all ids are cached", async () => {
+			const { calls, getUsers } = createGetUsers();
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 1000,
+				prefix: "users",
+			});
+
+			await cachedFn([1, 2]);
+			await cachedFn([2, 1]);
+
+			expect(calls).toEqual([[1, 2]]);
+		});
+
+		it("should load duplicate ids only once", async () => {
+			const { calls, getUsers } = createGetUsers();
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 1000,
+				prefix: "users",
+			});
+
+			const result = await cachedFn([1, 1, 2]);
+
+			expect(result.map((user) => user.id)).toEqual([1, 1, 2]);
+			expect(calls).toEqual([[1, 2]]);
+		});
+
+		it("should respect shouldStore per result", async () => {
+			const { calls, getUsers } = createGetUsers();
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 1000,
+				prefix: "users",
+				shouldStore: (user) => user.id !== 2,
+			});
+
+			await cachedFn([1, 2]);
+			await cachedFn([1, 2]);
+
+			expect(calls).toEqual([[1, 2], [2]]);
+		});
+
+		it("should use custom calculateKey function", async () => {
+			const calls: string[][] = [];
+			const getUsers = async (users: { id: string; locale: string }[]) => {
+				calls.push(users.map(({ id }) => id));
+				return users.map(({ id }) => id);
+			};
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 1000,
+				prefix: "users",
+				calculateKey: (user) => user.id,
+			});
+
+			await cachedFn([{ id: "a", locale: "en" }]);
+			await cachedFn([{ id: "a", locale: "de" }]);
+
+			expect(calls).toEqual([["a"]]);
+		});
+
+		it("should not cache when cacheTimeMs and staleTimeMs are 0", async () => {
+			const { calls, getUsers } = createGetUsers();
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 0,
+				staleTimeMs: 0,
+			});
+
+			await cachedFn([1]);
+			await cachedFn([1]);
+
+			expect(calls).toEqual([[1], [1]]);
+		});
+	});
+
+	describe("Batching", () => {
+		it("should collect misses of concurrent calls into one batch", async () => {
+			const { calls, getUsers } = createGetUsers();
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 1000,
+				prefix: "users",
+			});
+
+			const [first, second] = await Promise.all([
+				cachedFn([1, 2]),
+				cachedFn([2, 3]),
+			]);
+
+			expect(first.map((user) => user.id)).toEqual([1, 2]);
+			expect(second.map((user) => user.id)).toEqual([2, 3]);
+			expect(calls).toEqual([[1, 2, 3]]);
+		});
+
+		it("should split batches at maxBatchSize", async () => {
+			const { calls, getUsers } = createGetUsers();
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 1000,
+				prefix: "users",
+				maxBatchSize: 2,
+			});
+
+			const result = await cachedFn([1, 2, 3, 4, 5]);
+
+			expect(result.map((user) => user.id)).toEqual([1, 2, 3, 4, 5]);
+			expect(calls).toEqual([[1, 2], [3, 4], [5]]);
+		});
+
+		it("should reject all callers of a failed batch", async () => {
+			let callCount = 0;
+			const getUsers = async (ids: number[]) => {
+				callCount++;
+				if (callCount === 1) throw new Error("Batch failed");
+				return ids;
+			};
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 1000,
+				prefix: "users",
+			});
+
+			const results = await Promise.allSettled([cachedFn([1]), cachedFn([2])]);
+
+			expect(results.map(({ status }) => status)).toEqual([
+				"rejected",
+				"rejected",
+			]);
+			expect(await cachedFn([1, 2])).toEqual([1, 2]);
+		});
+
+		it("should reject when the batch function returns the wrong number of results", async () => {
+			const getUsers = async (ids: number[]) => ids.slice(1);
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 1000,
+				prefix: "users",
+			});
+
+			await expect(cachedFn([1, 2])).rejects.toThrow(
+				"returned 1 results for 2 ids",
+			);
+		});
+	});
+
+	describe("Stale-While-Revalidate", () => {
+		it("should return stale content and reload it in the background", async () => {
+			let version = 0;
+			const calls: number[][] = [];
+			const getUsers = async (ids: number[]) => {
+				calls.push(ids);
+				version++;
+				return ids.map((id) => `${id}-v${version}`);
+			};
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 20,
+				staleTimeMs: 1000,
+				prefix: "users",
+			});
+
+			expect(await cachedFn([1, 2])).toEqual(["1-v1", "2-v1"]);
+			await new Promise((resolve) => setTimeout(resolve, 30));
+
+			expect(await cachedFn([1, 2, 3])).toEqual(["1-v1", "2-v1", "3-v2"]);
+			expect(calls).toEqual([
+				[1, 2],
+				[1, 2, 3],
+			]);
+
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			expect(await cachedFn([1, 2])).toEqual(["1-v2", "2-v2"]);
+		});
+
+		it("should reload expired content before returning", async () => {
+			const { calls, getUsers } = createGetUsers();
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 20,
+				prefix: "users",
+			});
+
+			await cachedFn([1]);
+			await new Promise((resolve) => setTimeout(resolve, 30));
+			await cachedFn([1]);
+
+			expect(calls).toEqual([[1], [1]]);
+		});
+
+		it("should report background reload failures", async () => {
+			let callCount = 0;
+			const getUsers = async (ids: number[]) => {
+				callCount++;
+				if (callCount > 1) throw new Error("Reload failed");
+				return ids;
+			};
+
+			const reported = new Promise<unknown>((resolve) => {
+				const cachedFn = withBatchCache(getUsers, {
+					cacheTimeMs: 20,
+					staleTimeMs: 1000,
+					prefix: "users",
+					onRevalidationError: resolve,
+				});
+
+				void (async () => {
+					await cachedFn([1]);
+					await new Promise((r) => setTimeout(r, 30));
+					expect(await cachedFn([1])).toEqual([1]);
+				})();
+			});
+
+			expect(((await reported) as Error).message).toBe("Reload failed");
+			expect(container.getStats().revalidationsFailed).toBe(1);
+		});
+
+		it("should not reject if onRevalidationError throws", async () => {
+			const rejections: unknown[] = [];
+			const onRejection = (reason: unknown) => rejections.push(reason);
+			process.on("unhandledRejection", onRejection);
+			let callCount = 0;
+			const getUsers = async (ids: number[]) => {
+				callCount++;
+				if (callCount > 1) throw new Error("Reload failed");
+				return ids;
+			};
+			const cachedFn = withBatchCache(getUsers, {
+				cacheTimeMs: 20,
+				staleTimeMs: 1000,
+				prefix: "throwing-hook",
+				onRevalidationError: () => {
+					throw new Error("Hook failed");
+				},
+			});
+
+			await cachedFn([1]);
+			await new Promise((resolve) => setTimeout(resolve, 30));
+			expect(await cachedFn([1])).toEqual([1]);
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			process.off("unhandledRejection", onRejection);
+
+			expect(callCount).toBe(2);
+			expect(rejections).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,196 @@
+import type { CacheContainer } from "./cacheContainer.ts";
+import { debug } from "./debug.ts";
+import hash from "./hash.ts";
+
+type WithBatchCacheOptions<Id, Result> = {
+	/** An optional prefix to prepend to the cache key for namespacing purposes */
+	prefix?: string;
+	/** An optional function to calculate a cache key for a single id. Defaults to hashing the id */
+	calculateKey?: (id: Id) => string;
+	/** An optional predicate function to determine whether a single result should be cached */
+	shouldStore?: (result: Result) => boolean;
+	/**
+	 * Time in milliseconds after which cached content is considered "expired" and no longer fresh.
+	 * When set to 0 along with staleTimeMs=0, caching is disabled entirely.
+	 * @default undefined - cache indefinitely
+	 */
+	cacheTimeMs?: number;
+	/**
+	 * Time in milliseconds after which cached content is considered "stale".
+	 * Stale content is returned immediately while the id is reloaded in the background.
+	 * @default 0 (no stale caching)
+	 */
+	staleTimeMs?: number;
+	/**
+	 * Maximum number of ids passed to a single call of the batch operation
+	 * @default Infinity
+	 */
+	maxBatchSize?: number;
+	/** Called when reloading stale content in the background fails */
+	onRevalidationError?: (error: unknown, key: string) => void;
+};
+
+type PendingLoad<Id, Result> = {
+	id: Id;
+	resolve: (result: Result) => void;
+	reject: (error: unknown) => void;
+};
+
+/**
+ * Creates a withBatchCache wrapper function for a specific cache container.
+ * In contrast to withCache, results of batch functions like `getUsers(ids)` are cached per id:
+ * - Cached ids are answered from the cache with the same SWR semantics as withCache
+ * - Missing ids of all calls within the same tick are collected and loaded with a single call of the batch function
+ * - Results are returned in the order of the requested ids
+ *
+ * @param container - The cache container instance to store and retrieve cached values
+ * @returns A withBatchCache function bound to the provided container
+ */
+export const withBatchCacheFactory = (container: CacheContainer) => {
+	/**
+	 * Wraps an async batch function with per-id caching.
+	 * The batch function must return exactly one result per id, in the order of the ids.
+	 *
+	 * @param operation - The async batch function to wrap with caching
+	 * @param options - Caching and batching options
+	 * @returns An async wrapper function that returns one result per requested id
+	 */
+	const withBatchCache = <Id, Result>(
+		operation: (ids: Id[]) => Promise<Result[]>,
+		{
+			cacheTimeMs,
+			staleTimeMs = 0,
+			calculateKey = hash,
+			prefix = "default",
+			shouldStore = () => true,
+			maxBatchSize = Number.POSITIVE_INFINITY,
+			onRevalidationError,
+		}: WithBatchCacheOptions<Id, Result> = {},
+	) => {
+		/** Loads collected in the current tick, keyed by cache key */
+		let pendingBatch: Map<string, PendingLoad<Id, Result>> | undefined;
+		/** Loads that are collected or dispatched but not settled yet */
+		const inFlightLoads = new Map<string, Promise<Result>>();
+
+		const dispatch = async (batch: Map<string, PendingLoad<Id, Result>>) => {
+			if (pendingBatch === batch) pendingBatch = undefined;
+
+			const entries = [...batch];
+			try {
+				const results = await operation(entries.map(([, { id }]) => id));
+				if (results.length !== entries.length) {
+					throw new Error(
+						`${operation.name} returned ${results.length} results for ${entries.length} ids`,
+					);
+				}
+
+				await container.setItems(
+					entries
+						.map(([key], i) => ({ key, content: results[i] as Result }))
+						.filter(({ content }) => shouldStore(content))
+						.map(({ key, content }) => ({
+							key,
+							content,
+							options: { ttl: cacheTimeMs ?? null, staleTtl: staleTimeMs },
+						})),
+				);
+
+				entries.forEach(([, { resolve }], i) => {
+					resolve(results[i] as Result);
+				});
+			} catch (error) {
+				for (const [, { reject }] of entries) {
+					reject(error);
+				}
+			}
+		};
+
+		/**
+		 * Adds an id to the batch of the current tick, or joins a load already in flight for it
+		 */
+		const load = (key: string, id: Id): Promise<Result> => {
+			const inFlight = inFlightLoads.get(key);
+			if (inFlight) return inFlight;
+
+			if (!pendingBatch) {
+				const batch = new Map<string, PendingLoad<Id, Result>>();
+				pendingBatch = batch;
+				setImmediate(() => {
+					if (pendingBatch === batch) void dispatch(batch);
+				});
+			}
+
+			const batch = pendingBatch;
+			const promise = new Promise<Result>((resolve, reject) => {
+				batch.set(key, { id, resolve, reject });
+			}).finally(() => {
+				inFlightLoads.delete(key);
+			});
+			inFlightLoads.set(key, promise);
+
+			if (batch.size >= maxBatchSize) void dispatch(batch);
+
+			return promise;
+		};
+
+		const revalidate = (key: string, id: Id) => {
+			if (inFlightLoads.has(key)) return;
+
+			const startedAt = performance.now();
+			container.emit("revalidate:start", { key });
+			void load(key, id).then(
+				() =>
+					container.emit("revalidate:success", {
+						key,
+						durationMs: performance.now() - startedAt,
+					}),
+				(error: unknown) => {
+					container.emit("revalidate:error", {
+						key,
+						error,
+						durationMs: performance.now() - startedAt,
+					});
+					debug(`Background revalidation of ${key} failed: ${error}`);
+					try {
+						onRevalidationError?.(error, key);
+					} catch (hookError) {
+						debug(`onRevalidationError for ${key} failed: ${hookError}`);
+					}
+				},
+			);
+		};
+
+		return async (ids: Id[]): Promise<Result[]> => {
+			/**
+			 * The easiest case: no caching at all
+			 */
+			if (cacheTimeMs === 0 && staleTimeMs === 0) {
+				return operation(ids);
+			}
+
+			const keys = ids.map(
+				(id) => `${operation.name}:${prefix}:${calculateKey(id)}`,
+			);
+			const cachedResponses = await container.getItems<Result>(keys);
+
+			return Promise.all(
+				keys.map((key, i) => {
+					const cachedResponse = cachedResponses[i];
+					const id = ids[i] as Id;
+
+					if (cachedResponse?.meta.state === "fresh") {
+						return cachedResponse.content;
+					}
+
+					if (cachedResponse?.meta.state === "stale") {
+						revalidate(key, id);
+						return cachedResponse.content;
+					}
+
+					return load(key, id);
+				}),
+			);
+		};
+	};
+	return withBatchCache;
+};
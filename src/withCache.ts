@@ -1,35 +1,93 @@
 import PQueue from "p-queue";
-import type { CacheContainer } from "./cacheContainer.ts";
+import type {
+	CacheContainer,
+	CachedItem,
+	CachingOptions,
+} from "./cacheContainer.ts";
+import { debug } from "./debug.ts";
 import hash from "./hash.ts";
+import type { RandomSource } from "./random.ts";
 
 const revalidationQueues: Record<string, PQueue> = {};
 
-type WithCacheOptions<Parameters, Result> = {
-  /** An optional prefix to prepend to the cache key for namespacing purposes */
-  prefix?: string;
-  /** An optional function to calculate a cache key based on the function parameters. Defaults to hashing the parameters */
-  calculateKey?: (input: Parameters) => string;
-  /** An optional predicate function to determine whether a result should be cached. Useful for filtering out error responses or invalid data */
-  shouldStore?: (result: Awaited<Result>) => boolean;
-  /**
-   * Concurrency limit for background revalidation tasks in the queue
-   * @default 1
-   */
-  revalidationConcurrency?: number;
-  /**
-   * Time in milliseconds after which cached content is considered "expired" and no longer fresh.
-   * During this period, cached content is returned immediately without revalidation.
-   * When set to 0 along with staleTimeMs=0, caching is disabled entirely.
-   * @default undefined - cache indefinitely
-   */
-  cacheTimeMs?: number;
-  /**
-   * Time in milliseconds after which cached content is considered "stale".
-   * Used for Stale-While-Revalidate: stale content is returned immediately while revalidation happens in the background.
-   * Must be greater than cacheTimeMs to be effective. When both cacheTimeMs and staleTimeMs are 0, caching is disabled.
-   * @default 0 (no stale caching)
-   */
-  staleTimeMs?: number;
+export type WithCacheOptions<Parameters, Result> = {
+	/** An optional prefix to prepend to the cache key for namespacing purposes */
+	prefix?: string;
+	/** An optional function to calculate a cache key based on the function parameters. Defaults to hashing the parameters */
+	calculateKey?: (input: Parameters) => string;
+	/** An optional predicate function to determine whether a result should be cached. Useful for filtering out error responses or invalid data */
+	shouldStore?: (result: Awaited<Result>) => boolean;
+	/**
+	 * Concurrency limit for background revalidation tasks in the queue
+	 * @default 1
+	 */
+	revalidationConcurrency?: number;
+	/**
+	 * Time in milliseconds after which cached content is considered "expired" and no longer fresh.
+	 * During this period, cached content is returned immediately without revalidation.
+	 * When set to 0 along with staleTimeMs=0, caching is disabled entirely.
+	 * @default undefined - cache indefinitely
+	 */
+	cacheTimeMs?: number;
+	/**
+	 * Time in milliseconds after which cached content is considered "stale".
+	 * Used for Stale-While-Revalidate: stale content is returned immediately while revalidation happens in the background.
+	 * Must be greater than cacheTimeMs to be effective. When both cacheTimeMs and staleTimeMs are 0, caching is disabled.
+	 * @default 0 (no stale caching)
+	 */
+	staleTimeMs?: number;
+	/**
+	 * Whether concurrent calls resolving to the same cache key should share a single pending
+	 * execution of the operation instead of each calling it (single-flight / stampede protection).
+	 * All waiters receive the same result or the same error.
+	 * @default true
+	 */
+	dedupe?: boolean;
+	/**
+	 * Time in milliseconds after content stopped being fresh or stale during which it is still
+	 * returned if the operation throws (stale-if-error). Without cached content the error is rethrown.
+	 * @default 0 (errors are always rethrown)
+	 */
+	staleIfErrorMs?: number;
+	/**
+	 * Called when a background revalidation fails. The stale content has already been returned
+	 * to the caller at that point, so this is the only place the error surfaces.
+	 */
+	onRevalidationError?: (error: unknown, key: string) => void;
+	/**
+	 * Maximum number of milliseconds randomly added to cacheTimeMs and staleTimeMs of each entry, or `{ fraction }` of cacheTimeMs,
+	 * so that entries cached together do not expire together. See `random` of the CacheContainer for deterministic tests.
+	 * @default undefined (no jitter)
+	 */
+	ttlJitter?: CachingOptions["ttlJitter"];
+	/**
+	 * Enables probabilistic early refresh (XFetch) of fresh content: as content nears the end of cacheTimeMs,
+	 * calls refresh it in the background with increasing probability, so that entries created together do not expire together.
+	 * The time it took to compute the content scales how early refreshes start; higher values refresh earlier.
+	 * @default 0 (no early refresh)
+	 */
+	earlyRefreshBeta?: number;
+	/**
+	 * An optional function deriving tags from the parameters and the result, which are attached to the cached entry.
+	 * Entries can then be invalidated with `container.invalidateTags(tags)`.
+	 */
+	tags?: (input: Parameters, result: Awaited<Result>) => string[];
+};
+
+/**
+ * XFetch: decides whether to refresh fresh content early, with a probability growing towards its expiry.
+ * The window scales with the time it took to compute the content and beta.
+ */
+const shouldRefreshEarly = (
+	{ createdAt, ttl, computeTimeMs }: CachedItem["meta"],
+	beta: number,
+	random: RandomSource,
+): boolean => {
+	if (beta <= 0 || ttl === null || computeTimeMs === undefined) return false;
+
+	// 1 - random() is in (0, 1], so the logarithm is finite and negative
+	const headStart = -computeTimeMs * beta * Math.log(1 - random());
+	return Date.now() + headStart >= createdAt + ttl;
 };
 
 /**
@@ -44,91 +102,185 @@ type WithCacheOptions<Parameters, Result> = {
  * @returns A withCache function bound to the provided container
  */
 export const withCacheFactory = (container: CacheContainer) => {
-  /**
-   * Wraps an async function with caching and Stale-While-Revalidate (SWR) logic.
-   * Multiple concurrent calls with the same parameters share the same cache entry and revalidation queue.
-   *
-   * @param operation - The async function to wrap with caching
-   * @param options - Caching and revalidation options
-   * @returns An async wrapper function that returns cached or freshly computed results
-   */
-  const withCache = <
-    Parameters extends Array<unknown>,
-    Result extends Promise<unknown>,
-  >(
-    operation: (...parameters: Parameters) => Result,
-    {
-      cacheTimeMs,
-      staleTimeMs = 0,
-      calculateKey = hash,
-      revalidationConcurrency: concurrency = 1,
-      prefix = "default",
-      shouldStore = () => true,
-    }: WithCacheOptions<Parameters, Result> = {},
-  ) => {
-    return async (...parameters: Parameters): Promise<Result> => {
-      const key = `${operation.name}:${prefix}:${
-        calculateKey ? calculateKey(parameters) : hash(parameters)
-      }` as const;
-
-      const queueName = `${operation.name}:${prefix}` as const;
-
-      revalidationQueues[queueName] =
-        revalidationQueues[queueName] ??
-        new PQueue({
-          concurrency,
-        });
-      revalidationQueues[queueName].concurrency = concurrency;
-
-      const cachedResponse = await container.getItem<Awaited<Result>>(key);
-
-      const refreshedItem = async () => {
-        const result = await operation(...parameters);
-        if (shouldStore(result)) {
-          await container.setItem(key, result, {
-            ttl: cacheTimeMs ?? null,
-            staleTtl: staleTimeMs,
-          });
-        }
-        return result;
-      };
-
-      /**
-       * The easiest case: no caching at all
-       */
-      if (cacheTimeMs === 0 && staleTimeMs === 0) {
-        return operation(...parameters);
-      }
-
-      /**
-       * The easy case: we have a valid cached response
-       */
-      if (cachedResponse && !cachedResponse.meta.expired) {
-        return cachedResponse.content;
-      }
-
-      /**
-       * Stale-While-Revalidate strategy:
-       * If the cached response is expired but stale
-       * we return the stale value immediately and revalidate in the background
-       */
-      if (cachedResponse?.meta.expired && cachedResponse?.meta.stale) {
-        if (
-          !revalidationQueues[queueName].runningTasks.some(
-            (t) => t.id === key && t.startTime,
-          )
-        ) {
-          revalidationQueues[queueName].add(refreshedItem, {
-            id: key,
-          });
-        }
-
-        return cachedResponse.content;
-      }
-
-      const result = await refreshedItem();
-      return result;
-    };
-  };
-  return withCache;
+	/** Pending operation executions per cache key, shared by concurrent callers */
+	const inFlightRequests = new Map<string, Promise<unknown>>();
+
+	/**
+	 * Wraps an async function with caching and Stale-While-Revalidate (SWR) logic.
+	 * Multiple concurrent calls with the same parameters share the same cache entry and revalidation queue.
+	 *
+	 * @param operation - The async function to wrap with caching
+	 * @param options - Caching and revalidation options
+	 * @returns An async wrapper function that returns cached or freshly computed results
+	 */
+	const withCache = <
+		Parameters extends Array<unknown>,
+		Result extends Promise<unknown>,
+	>(
+		operation: (...parameters: Parameters) => Result,
+		{
+			cacheTimeMs,
+			staleTimeMs = 0,
+			calculateKey = hash,
+			revalidationConcurrency: concurrency = 1,
+			prefix = "default",
+			shouldStore = () => true,
+			dedupe = true,
+			staleIfErrorMs = 0,
+			earlyRefreshBeta = 0,
+			ttlJitter,
+			onRevalidationError,
+			tags,
+		}: WithCacheOptions<Parameters, Result> = {},
+	) => {
+		return async (...parameters: Parameters): Promise<Result> => {
+			const key = `${operation.name}:${prefix}:${
+				calculateKey ? calculateKey(parameters) : hash(parameters)
+			}` as const;
+
+			const queueName = `${operation.name}:${prefix}` as const;
+
+			revalidationQueues[queueName] =
+				revalidationQueues[queueName] ??
+				new PQueue({
+					concurrency,
+				});
+			revalidationQueues[queueName].concurrency = concurrency;
+			const revalidationQueue = revalidationQueues[queueName];
+
+			const cachedResponse = await container.getItem<Awaited<Result>>(key, {
+				graceTtl: staleIfErrorMs,
+			});
+
+			const refreshedItem = async () => {
+				const startedAt = performance.now();
+				const result = await operation(...parameters);
+				const computeTimeMs = performance.now() - startedAt;
+				if (shouldStore(result)) {
+					await container.setItem(key, result, {
+						ttl: cacheTimeMs ?? null,
+						staleTtl: staleTimeMs,
+						tags: tags?.(parameters, result) ?? [],
+						computeTimeMs,
+						...(ttlJitter !== undefined && { ttlJitter }),
+					});
+				}
+				return result;
+			};
+
+			/**
+			 * Joins an execution already in flight for this key or starts a new one
+			 */
+			const sharedRefreshedItem = (): ReturnType<typeof refreshedItem> => {
+				if (!dedupe) return refreshedItem();
+
+				const pending = inFlightRequests.get(key);
+				if (pending) return pending as ReturnType<typeof refreshedItem>;
+
+				const request = refreshedItem().finally(() => {
+					inFlightRequests.delete(key);
+				});
+				inFlightRequests.set(key, request);
+				return request;
+			};
+
+			/**
+			 * Refreshes the item in the revalidation queue, unless a revalidation of this key is already running
+			 */
+			const revalidateInBackground = () => {
+				if (
+					revalidationQueue.runningTasks.some(
+						(t) => t.id === key && t.startTime,
+					)
+				) {
+					return;
+				}
+
+				revalidationQueue
+					.add(
+						async () => {
+							const startedAt = performance.now();
+							container.emit("revalidate:start", { key });
+							try {
+								await sharedRefreshedItem();
+								container.emit("revalidate:success", {
+									key,
+									durationMs: performance.now() - startedAt,
+								});
+							} catch (error) {
+								container.emit("revalidate:error", {
+									key,
+									error,
+									durationMs: performance.now() - startedAt,
+								});
+								throw error;
+							}
+						},
+						{
+							id: key,
+						},
+					)
+					.catch((error: unknown) => {
+						debug(`Background revalidation of ${key} failed: ${error}`);
+						try {
+							onRevalidationError?.(error, key);
+						} catch (hookError) {
+							debug(`onRevalidationError for ${key} failed: ${hookError}`);
+						}
+					});
+			};
+
+			/**
+			 * The easiest case: no caching at all
+			 */
+			if (cacheTimeMs === 0 && staleTimeMs === 0) {
+				return operation(...parameters);
+			}
+
+			/**
+			 * The easy case: we have a valid cached response.
+			 * With early refresh, it is revalidated in the background with increasing probability as it nears expiry
+			 */
+			if (cachedResponse?.meta.state === "fresh") {
+				if (
+					shouldRefreshEarly(
+						cachedResponse.meta,
+						earlyRefreshBeta,
+						container.random,
+					)
+				) {
+					debug(`Refreshing ${key} early`);
+					revalidateInBackground();
+				}
+				return cachedResponse.content;
+			}
+
+			/**
+			 * Stale-While-Revalidate strategy:
+			 * If the cached response is expired but stale
+			 * we return the stale value immediately and revalidate in the background
+			 */
+			if (cachedResponse?.meta.state === "stale") {
+				revalidateInBackground();
+				return cachedResponse.content;
+			}
+
+			try {
+				const result = await sharedRefreshedItem();
+				return result;
+			} catch (error) {
+				/**
+				 * Stale-If-Error strategy:
+				 * If the operation fails but we still hold content within the grace window,
+				 * we return it instead of the error
+				 */
+				if (cachedResponse?.meta.state === "expired") {
+					debug(`Operation for ${key} failed, serving expired content`);
+					return cachedResponse.content;
+				}
+				throw error;
+			}
+		};
+	};
+	return withCache;
 };